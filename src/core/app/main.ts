@@ -7,19 +7,93 @@
  *              like enable debug to tweak app/effect parameters
  */
 import * as THREE from 'three'
-import {Timer} from 'three/addons/misc/Timer.js'
-import DebugManager from '../services/debug-manager.js'
+import type DebugManager from '../services/debug-manager.js'
 import ModelLoaderManager from '../services/model-loader-manager.js'
+import {clearAssetCache} from '../services/model-loader-manager/asset-cache.js'
+import {
+  acquireSharedRenderer,
+  releaseSharedRenderer,
+} from '../services/renderer-manager/shared-renderer.js'
 import ModelManager from '../services/model-manager.js'
 import RendererManager from '../services/renderer-manager.js'
 import GpGpuManager from '../services/gpgpu-manager.js'
+import TweenManager from '../services/tween-manager.js'
+import EventManager from '../services/event-manager.js'
+import VisibilityManager from '../services/visibility-manager.js'
+import ResizeManager from '../services/resize-manager.js'
+import QualityManager from '../services/quality-manager.js'
+import RandomManager from '../services/random-manager.js'
+import ClockManager from '../services/clock-manager.js'
+import CaptureManager from '../services/capture-manager.js'
+import ConfigManager from '../services/config-manager.js'
+import ConfigError from '../services/config-manager/config-error.js'
+import StatsManager from '../services/stats-manager.js'
+import HotkeyManager from '../services/hotkey-manager.js'
 import FlowFieldManager from './main/runner/model/gpgpu/flow-field-manager.js'
 import Model from './main/runner/model.js'
 import Pointer from './main/runner/pointer.js'
 import Runner from './main/runner.js'
-import type {Config} from '../types'
+import type {
+  CaptureOptions,
+  Config,
+  EventMap,
+  FrameSequenceOptions,
+  ModelLoadOptions,
+  ModelSource,
+  ModelSourcePointMotion,
+  PointerConfig,
+  QualityTier,
+  RecordOptions,
+  Transition,
+} from '../types'
+
+/**
+ * @constant
+ * @type {number}
+ */
+const DEFAULT_CAPTURE_FPS: number = 30
+
+/**
+ * @constant
+ * @type {number}
+ * @note Target number of triangles of the generated raycast proxy
+ *       (used when a model does not have a low poly version)
+ */
+const DEFAULT_PROXY_TRIANGLES: number = 2000
+
+/**
+ * @constant
+ * @type {string}
+ * @note Key combination that toggles debug by default
+ */
+const DEFAULT_DEBUG_HOTKEY: string = 'd'
+
+/**
+ * @constant
+ * @type {string}
+ * @note URL query parameter that enables debug,
+ *       when `debug.enabled` is set to `url-param`
+ */
+const DEBUG_URL_PARAM: string = 'debug'
 
 export default class Main {
+  /**
+   * @type {Set<Main>}
+   * @note Instances that listen to the debug hotkey.
+   *       If there is only one, the hotkey is handled globally
+   */
+  static #hotkeyInstances: Set<Main> = new Set()
+
+  /**
+   * @type {Promise<void>}
+   */
+  #ready: Promise<void>
+
+  /**
+   * @type {'pending' | 'fulfilled' | 'rejected'}
+   */
+  #readyState: 'pending' | 'fulfilled' | 'rejected' = 'pending'
+
   /**
    * @type {Runner}
    */
@@ -41,25 +115,125 @@ export default class Main {
   #modelManager: ModelManager
 
   /**
-   * @type {Timer}
+   * @type {ClockManager}
+   */
+  #clockManager: ClockManager
+
+  /**
+   * @type {DebugManager | null}
+   * @note It is created when debug is enabled for the first time,
+   *       so the debug library is only loaded when it is needed
+   */
+  #debugManager: DebugManager | null = null
+
+  /**
+   * @type {Promise<DebugManager | null> | null}
+   */
+  #debugManagerPromise: Promise<DebugManager | null> | null = null
+
+  /**
+   * @type {HotkeyManager | null}
+   */
+  #hotkeyManager: HotkeyManager | null = null
+
+  /**
+   * @type {TweenManager}
+   */
+  #tweenManager: TweenManager
+
+  /**
+   * @type {EventManager<EventMap>}
+   */
+  #eventManager: EventManager<EventMap>
+
+  /**
+   * @type {VisibilityManager | null}
+   */
+  #visibilityManager: VisibilityManager | null = null
+
+  /**
+   * @type {ResizeManager | null}
+   */
+  #resizeManager: ResizeManager | null = null
+
+  /**
+   * @type {CaptureManager}
+   */
+  #captureManager: CaptureManager
+
+  /**
+   * @type {StatsManager | null}
+   * @note It is created when debug is enabled for the first time
+   */
+  #statsManager: StatsManager | null = null
+
+  /**
+   * @type {QualityManager | null}
+   */
+  #qualityManager: QualityManager | null = null
+
+  /**
+   * @type {Map<string, {loaded: number; total: number}>}
+   * @note Load progress by model URL.
+   *       It is used to calculate the overall load progress
+   */
+  #loadProgress: Map<string, {loaded: number; total: number}> = new Map()
+
+  /**
+   * @type {() => void}
+   */
+  #resolveReady: () => void
+
+  /**
+   * @type {(error: Error) => void}
+   */
+  #rejectReady: (error: Error) => void
+
+  /**
+   * @type {{
+   *   strength      ?: number;
+   *   minRad        ?: number;
+   *   maxRad        ?: number;
+   *   pulseStrength ?: number;
+   *   pulseFrequency?: number;
+   * }}
+   * @note Pointer settings are kept here because they can be changed
+   *       at runtime, and they must survive the app re-initialization
+   *       (i.e.: when the breakpoint changes)
    */
-  #timer: Timer
+  #pointerSettings: PointerConfig
 
   /**
-   * @type {DebugManager}
+   * @type {{
+   *   size  ?: number;
+   *   motion : {
+   *     frequency?: number;
+   *     strength ?: number;
+   *     ratio    ?: number;
+   *     lifeDecay?: number;
+   *   }
+   * }}
+   * @note Point settings changed at runtime.
+   *       They override the settings of the current model
    */
-  #debugManager: DebugManager
+  #pointSettings: {size?: number; motion: ModelSourcePointMotion} = {
+    motion: {},
+  }
 
   /**
    * @type {{
+   *   container        ?: HTMLElement | string;
    *   containerSelector?: string;
    *   models            : {
    *     src: {
-   *       highPoly: string;
-   *       lowPoly : string;
+   *       highPoly       : ModelInput;
+   *       lowPoly       ?: ModelInput;
+   *       proxyTriangles?: number;
+   *       meshes        ?: string[];
+   *       format        ?: 'gltf' | 'glb' | 'ply' | 'pcd' | 'obj' | 'stl';
    *     };
-   *     width  : number;
-   *     height : number;
+   *     width  : number | 'container';
+   *     height : number | 'container';
    *     camera?: {
    *       position?: {
    *         x: number;
@@ -72,17 +246,27 @@ export default class Main {
    *       isControlsEnabled?: boolean;
    *     };
    *     point?: {
-   *       size  ?: number;
-   *       motion?: {
+   *       size    ?: number;
+   *       motion  ?: {
    *         frequency?: number;
    *         strength ?: number;
    *         ratio    ?: number;
    *         lifeDecay?: number;
-   *       }
+   *       };
+   *       sampling?: {
+   *         mode ?: 'vertices' | 'surface';
+   *         count?: number;
+   *       };
+   *       color   ?: string | number;
    *     }
    *   };
    *   loader?: {
-   *     dracoUrl?: string;
+   *     dracoUrl         ?: string;
+   *     ktx2TranscoderUrl?: string;
+   *     meshopt          ?: boolean;
+   *   };
+   *   renderer?: {
+   *     isShared?: boolean;
    *   };
    *   pointer?: {
    *     strength      ?: number;
@@ -91,32 +275,70 @@ export default class Main {
    *     pulseStrength ?: number;
    *     pulseFrequency?: number;
    *   };
-   *   isDebugging?: boolean;
+   *   quality?: {
+   *     targetFps?: number;
+   *     minDpr   ?: number;
+   *     maxDpr   ?: number;
+   *   };
+   *   seed         ?: number;
+   *   clock        ?: 'auto' | 'manual';
+   *   fixedTimeStep?: number;
+   *   maxSubSteps  ?: number;
+   *   validation   ?: 'strict' | 'lenient';
+   *   debug?: {
+   *     hotkey ?: string | false;
+   *     enabled?: 'url-param' | boolean;
+   *   };
+   *   isDebugging  ?: boolean;
+   *   autoPause    ?: boolean;
    * }}
    */
   #config: Config
 
   /**
-   * @type {number}
+   * @type {number | null}
    */
-  #requestAnimationId: number
+  #requestAnimationId: number | null = null
 
   /**
    * @type {boolean}
+   * @note Flag that determines if the render loop was paused by the user
    */
-  #isDebugging: boolean
+  #isPaused: boolean = false
 
   /**
    * @type {boolean}
-   * @note By default, debug is not ready.
-   *       That means that debug settings were not already created
+   * @note Flag that determines if the render loop was suspended
+   *       because the effect can not be seen
+   *       (i.e.: auto pause is enabled and the canvas is off-screen)
    */
-  #isDebugReady: boolean = false
+  #isSuspended: boolean = false
 
   /**
-   * @type {Function}
+   * @type {boolean}
+   * @note Flag that determines if the render loop was stopped
+   *       because frames are being rendered offline
+   */
+  #isRenderingOffline: boolean = false
+
+  /**
+   * @type {boolean}
+   */
+  #isDebugging: boolean = false
+
+  /**
+   * @type {boolean}
+   * @note Flag that determines if debug can be enabled
+   *       (see `debug.enabled` configuration)
+   */
+  #isDebugAvailable: boolean = false
+
+  /**
+   * @type {boolean}
+   * @note By default, debug is not ready.
+   *       That means that debug settings were not already created
    */
-  #boundHandleDebug: (e: KeyboardEvent) => void
+  #isDebugReady: boolean = false
 
   /**
    * @type {Function}
@@ -127,14 +349,18 @@ export default class Main {
    * Constructor
    *
    * @param {{
+   *            container        ?: HTMLElement | string;
    *            containerSelector?: string;
    *            models            : {
    *              src: {
-   *                highPoly: string;
-   *                lowPoly : string;
+   *                highPoly       : ModelInput;
+   *                lowPoly       ?: ModelInput;
+   *                proxyTriangles?: number;
+   *                meshes        ?: string[];
+   *                format        ?: 'gltf' | 'glb' | 'ply' | 'pcd' | 'obj' | 'stl';
    *              };
-   *              width  : number;
-   *              height : number;
+   *              width  : number | 'container';
+   *              height : number | 'container';
    *              camera?: {
    *                position?: {
    *                  x: number;
@@ -147,17 +373,27 @@ export default class Main {
    *                isControlsEnabled?: boolean;
    *              };
    *              point?: {
-   *                size  ?: number;
-   *                motion?: {
+   *                size    ?: number;
+   *                motion  ?: {
    *                  frequency?: number;
    *                  strength ?: number;
    *                  ratio    ?: number;
    *                  lifeDecay?: number;
-   *                }
+   *                };
+   *                sampling?: {
+   *                  mode ?: 'vertices' | 'surface';
+   *                  count?: number;
+   *                };
+   *                color   ?: string | number;
    *              }
    *            };
    *            loader?: {
-   *              dracoUrl?: string;
+   *              dracoUrl         ?: string;
+   *              ktx2TranscoderUrl?: string;
+   *              meshopt          ?: boolean;
+   *            };
+   *            renderer?: {
+   *              isShared?: boolean;
    *            };
    *            pointer?: {
    *              strength      ?: number;
@@ -166,299 +402,1530 @@ export default class Main {
    *              pulseStrength ?: number;
    *              pulseFrequency?: number;
    *            };
-   *            isDebugging?: boolean;
+   *            quality?: {
+   *              targetFps?: number;
+   *              minDpr   ?: number;
+   *              maxDpr   ?: number;
+   *            };
+   *            seed         ?: number;
+   *            clock        ?: 'auto' | 'manual';
+   *            fixedTimeStep?: number;
+   *            maxSubSteps  ?: number;
+   *            validation   ?: 'strict' | 'lenient';
+   *            debug?: {
+   *              hotkey ?: string | false;
+   *              enabled?: 'url-param' | boolean;
+   *            };
+   *            isDebugging  ?: boolean;
+   *            autoPause    ?: boolean;
    *        }} config
+   * @throws  ConfigError
    */
   constructor(config: Config) {
+    this.#validateConfig(config)
+
     this.#config = config
+    this.#pointerSettings = {...config.pointer}
     this.#modelManager = new ModelManager(config.models)
+    this.#tweenManager = new TweenManager()
+    this.#eventManager = new EventManager()
+
+    if (config.quality) {
+      this.#initQualityManager()
+    }
+
+    this.#ready = new Promise((resolve, reject) => {
+      this.#resolveReady = resolve
+      this.#rejectReady = reject
+    })
 
     this.#init()
   }
 
   /**
-   * Dispose
+   * Get ready promise
    *
-   * @returns {void}
+   * @returns {Promise<void>}
+   * @note    It is resolved when the model points are on screen
+   *          for the first time, or rejected if the models can not be loaded.
+   *          If it was rejected and a model is loaded later
+   *          (i.e.: on breakpoint change), it is replaced
+   *          with a resolved promise
    */
-  dispose(): void {
-    cancelAnimationFrame(this.#requestAnimationId)
-
-    this.#timer.dispose()
-    this.#runner.dispose()
-    this.#rendererManager.dispose()
-    this.#modelLoaderManager.dispose()
-
-    this.#disposeDebugManager()
-    this.#dispose()
+  get ready(): Promise<void> {
+    return this.#ready
   }
 
   /**
-   * Dispose/reset this entry point
+   * Preload models
    *
-   * @returns {void}
+   * @param   {string[]} urls
+   * @param   {{
+   *            dracoUrl         ?: string;
+   *            ktx2TranscoderUrl?: string;
+   *            meshopt          ?: boolean;
+   *          }} loader
+   * @returns {Promise<void>}
+   * @note    Models are stored in an asset cache shared by every instance,
+   *          so they are not loaded again when an instance requires them
+   *          (i.e.: models can be preloaded while an intro plays).
+   *          Model formats are inferred from the URL extensions
+   * @note    KTX2 loader requires a renderer to detect the supported
+   *          texture formats, so the shared renderer is used meanwhile
    */
-  #dispose(): void {
-    window.removeEventListener('resize', this.#boundHandleResize)
+  static async preload(
+    urls: string[],
+    loader: Config['loader'] = {},
+  ): Promise<void> {
+    const renderer = loader.ktx2TranscoderUrl
+      ? acquireSharedRenderer(true)
+      : null
+    const modelLoaderManager = new ModelLoaderManager(
+      loader.dracoUrl,
+      loader.ktx2TranscoderUrl,
+      loader.meshopt,
+      renderer,
+    )
 
-    /**
-     * @note Reset debug flag
-     * @todo Improve this logic.
-     *       It was implemented in this way to release faster
-     */
-    this.#isDebugReady = false
+    try {
+      await Promise.all(urls.map((url) => modelLoaderManager.preload(url)))
+    } finally {
+      modelLoaderManager.dispose()
+      if (renderer) {
+        releaseSharedRenderer()
+      }
+    }
   }
 
   /**
-   * Init
+   * Clear the asset cache
    *
    * @returns {void}
+   * @note    Models that are already rendered are not affected,
+   *          but they are loaded again when they are required
    */
-  #init(): void {
-    this.#initDebugManager()
-    this.#initTimer()
-    this.#initModelLoaderManager()
-    this.#initRendererManager()
-    this.#initRunner()
-
-    this.#boundHandleResize = () => {
-      if (this.#modelManager.update()) {
-        this.dispose()
-        this.#init()
-      }
-    }
-    window.addEventListener('resize', this.#boundHandleResize)
-
-    /**
-     * @note If debugger is enabled by default,
-     *       wait for model to be loaded to initialize it
-     * @todo Improve this logic.
-     *       It was implemented in this way to release faster
-     */
-    this.#render(this.#config.isDebugging ?? false)
+  static clearCache(): void {
+    clearAssetCache()
   }
 
   /**
-   * Render
+   * Add event listener
    *
-   * @param   {boolean} enableDebug
-   * @param   {number}  t
-   * @returns {void}
+   * @param   {string}                 type
+   * @param   {(payload: any) => void} listener
+   * @returns {() => void}
+   * @note    It is returned a function that removes the added listener
    */
-  #render(enableDebug: boolean, t: number = 0): void {
-    this.#timer.update(t)
-    this.#runner.update(this.#timer.getDelta(), this.#timer.getElapsed())
-    this.#rendererManager.update(this.#timer.getDelta())
-
-    /**
-     * @note If debugger is enabled by default,
-     *       wait for model to be loaded to initialize it.
-     *       Then avoid trying to enable it again
-     * @todo Improve this logic.
-     *       It was implemented in this way to release faster
-     */
-    if (
-      enableDebug &&
-      this.#runner.model.points &&
-      this.#runner.model.points.material.uniforms.uTime
-    ) {
-      this.#isDebugging = true
-      this.#enableDebug()
-      enableDebug = false
-    }
+  on<K extends keyof EventMap>(
+    type: K,
+    listener: (payload: EventMap[K]) => void,
+  ): () => void {
+    return this.#eventManager.on(type, listener)
+  }
 
-    this.#requestAnimationId = requestAnimationFrame(
-      this.#render.bind(this, enableDebug),
-    )
+  /**
+   * Add event listener that is executed only once
+   *
+   * @param   {string}                 type
+   * @param   {(payload: any) => void} listener
+   * @returns {() => void}
+   */
+  once<K extends keyof EventMap>(
+    type: K,
+    listener: (payload: EventMap[K]) => void,
+  ): () => void {
+    return this.#eventManager.once(type, listener)
   }
 
   /**
-   * Handle debug
+   * Remove event listener
    *
-   * @param   {KeyboardEvent} e
+   * @param   {string}                 type
+   * @param   {(payload: any) => void} listener
    * @returns {void}
    */
-  #handleDebug(e: KeyboardEvent): void {
-    if (e.key === 'd') {
-      this.#isDebugging = !this.#isDebugging
-
-      if (this.#isDebugging) {
-        this.#enableDebug()
-      } else {
-        this.#disableDebug()
-      }
-    }
+  off<K extends keyof EventMap>(
+    type: K,
+    listener: (payload: EventMap[K]) => void,
+  ): void {
+    this.#eventManager.off(type, listener)
   }
 
   /**
-   * Enable debug
+   * Pause
    *
    * @returns {void}
+   * @note    Stop simulation and rendering until `resume()` is called
    */
-  #enableDebug(): void {
-    /**
-     * @note App debug settings should be enabled only once,
-     *       to avoid duplicating them on every debug enable
-     *       event
-     * @todo Improve this logic.
-     *       It was implemented in this way to release faster
-     */
-    if (!this.#isDebugReady) {
-      this.#runner.debug()
-      this.#isDebugReady = true
-    }
-
-    this.#debugManager.enable()
+  pause(): void {
+    this.#isPaused = true
+    this.#updateLoop()
   }
 
   /**
-   * Disable debug
+   * Resume
    *
    * @returns {void}
+   * @note    If auto pause is enabled and the effect can not be seen,
+   *          the render loop will start when the effect is visible again
    */
-  #disableDebug(): void {
-    this.#debugManager.disable()
+  resume(): void {
+    this.#isPaused = false
+    this.#updateLoop()
   }
 
   /**
-   * Dispose debug manager
+   * Advance the simulation
    *
+   * @param   {number} deltaTime
    * @returns {void}
+   * @note    Time is expressed in seconds.
+   *          It is intended to be used with the `manual` clock,
+   *          where the simulation is only advanced with this method.
+   *          If a fixed time step is set, the simulation is advanced
+   *          in steps of that size
+   * @note    The scene is rendered after the simulation is advanced
    */
-  #disposeDebugManager(): void {
-    window.removeEventListener('keydown', this.#boundHandleDebug)
-    this.#debugManager.dispose()
+  step(deltaTime: number): void {
+    this.#advance(deltaTime)
+    this.#rendererManager.update(0)
   }
 
   /**
-   * Init runner
+   * Set the simulation time
    *
+   * @param   {number} time
    * @returns {void}
+   * @note    Time is expressed in seconds.
+   *          Simulation is advanced with fixed steps until the given time,
+   *          so the result is the same as if the simulation had been
+   *          advanced to it (it can be used to scrub the simulation).
+   *          If the given time is before the current one, the simulation
+   *          is reset and replayed from the start.
+   *          Take into account that its cost grows with the number
+   *          of replayed steps (every step is computed synchronously)
+   * @note    The scene is rendered after the simulation time is set
    */
-  #initRunner(): void {
-    const model = this.#initModel()
-    const pointer = this.#initPointer()
-    this.#runner = new Runner(
-      model,
-      pointer,
-      this.#rendererManager,
-      this.#debugManager,
-      this.#config.pointer?.strength,
-      this.#config.pointer?.minRad,
-      this.#config.pointer?.maxRad,
-      this.#config.pointer?.pulseStrength,
-      this.#config.pointer?.pulseFrequency,
+  setTime(time: number): void {
+    this.#clockManager.setTime(
+      time,
+      (deltaTime, elapsedTime) => this.#update(deltaTime, elapsedTime),
+      () => this.#runner.reset(),
     )
+    this.#rendererManager.update(0)
   }
 
   /**
-   * Init pointer
+   * Get the simulation time
    *
-   * @returns {Pointer}
+   * @returns {number}
    */
-  #initPointer(): Pointer {
-    return new Pointer(
-      this.#rendererManager,
-      this.#modelManager.currentModel.src.lowPoly,
-      this.#modelLoaderManager,
-    )
+  getTime(): number {
+    return this.#clockManager.elapsedTime
   }
 
   /**
-   * Init model
+   * Export the current configuration
    *
-   * @returns {Model}
+   * @returns {Config}
+   * @note    The current model (the one of the current breakpoint)
+   *          is exported with the current point settings and camera.
+   *          Also, current pointer settings are exported.
+   *          It can be serialized as JSON, so the container is only
+   *          exported if it is a selector.
+   *          In-memory model sources can not be serialized,
+   *          so they are exported by reference
+   *          (the debug panel does not copy or save these configurations)
    */
-  #initModel(): Model {
-    const gpGpuManager = new GpGpuManager(this.#rendererManager)
-    const flowFieldManager = new FlowFieldManager(
-      gpGpuManager,
-      this.#debugManager,
-      this.#modelManager.currentModel.point?.motion?.frequency,
-      this.#modelManager.currentModel.point?.motion?.strength,
-      this.#modelManager.currentModel.point?.motion?.ratio,
-      this.#modelManager.currentModel.point?.motion?.lifeDecay,
-    )
+  exportConfig(): Config {
+    const models: Config['models'] = {}
+    for (const [key, {src, ...settings}] of Object.entries(
+      this.#config.models,
+    )) {
+      models[Number(key)] = {
+        ...JSON.parse(JSON.stringify(settings)),
+        src: {...src, meshes: src.meshes && [...src.meshes]},
+      }
+    }
+    const breakpoint = this.#modelManager.currentBreakpoint
+    const camera = this.#rendererManager.camera
+    const model: ModelSource = models[breakpoint]
+    model.camera = {
+      ...model.camera,
+      position: {
+        x: camera.position.x,
+        y: camera.position.y,
+        z: camera.position.z,
+      },
+      fov: camera.fov,
+      near: camera.near,
+      far: camera.far,
+    }
+    model.point = {
+      ...model.point,
+      size: this.#runner.model.getPointSize(),
+      motion: this.#runner.model.getMotionSettings() ?? model.point?.motion,
+    }
 
-    return new Model(
-      flowFieldManager,
-      this.#debugManager,
-      this.#modelManager.currentModel.src.highPoly,
-      this.#modelLoaderManager,
-      this.#modelManager.currentModel.point?.size,
-    )
+    const config: Config = {
+      ...this.#config,
+      models: models,
+      pointer: this.#runner.getPointerSettings(),
+    }
+    if (typeof config.container !== 'string') {
+      delete config.container
+    }
+
+    return config
   }
 
   /**
-   * Init renderer manager
+   * Import a configuration
    *
+   * @param   {Config} config
    * @returns {void}
+   * @throws  ConfigError
+   * @note    Models and pointer settings are applied to the current
+   *          instance. Settings changed at runtime are discarded.
+   *          Options that set up the instance (i.e.: container, renderer,
+   *          clock) are kept, because they require a new instance
    */
-  #initRendererManager(): void {
-    const cameraPosition = this.#modelManager.currentModel.camera?.position
-      ? new THREE.Vector3(
-          this.#modelManager.currentModel.camera.position.x,
-          this.#modelManager.currentModel.camera.position.y,
-          this.#modelManager.currentModel.camera.position.z,
-        )
-      : undefined
-    this.#rendererManager = new RendererManager(
-      this.#modelManager.currentModel.width,
-      this.#modelManager.currentModel.height,
-      cameraPosition,
-      this.#modelManager.currentModel.camera?.fov,
-      this.#modelManager.currentModel.camera?.near,
-      this.#modelManager.currentModel.camera?.far,
-      this.#modelManager.currentModel.camera?.isControlsEnabled,
+  importConfig(config: Config): void {
+    this.#validateConfig(config)
+
+    const previousModel = this.#modelManager.currentModel
+    this.#config = {
+      ...this.#config,
+      models: config.models,
+      pointer: config.pointer,
+    }
+    this.#modelManager = new ModelManager(config.models)
+    this.#pointSettings = {motion: {}}
+    this.#pointerSettings = {...config.pointer}
+    this.#runner.resetPointerSettings(this.#pointerSettings)
+
+    this.#applyModel(previousModel)
+    this.#resetDebug()
+  }
+
+  /**
+   * Capture the current frame
+   *
+   * @param   {{type?: string; scale?: number; quality?: number}} options
+   * @returns {Promise<Blob>}
+   * @note    By default, it is captured as a PNG image
+   */
+  captureFrame(options: CaptureOptions = {}): Promise<Blob> {
+    return this.#captureManager.captureFrame(
+      options.type,
+      options.scale,
+      options.quality,
+    )
+  }
+
+  /**
+   * Record a video
+   *
+   * @param   {{fps?: number; duration: number; type?: string}} options
+   * @returns {Promise<Blob>}
+   * @note    The video is recorded in real time from the canvas,
+   *          so the effect should not be paused while recording
+   */
+  record(options: RecordOptions): Promise<Blob> {
+    return this.#captureManager.record(
+      options.fps ?? DEFAULT_CAPTURE_FPS,
+      options.duration,
+      options.type,
     )
+  }
 
-    if (this.#config.containerSelector) {
-      document
-        .querySelector(this.#config.containerSelector)
-        ?.appendChild(this.#rendererManager.renderer.domElement)
-    } else {
-      document.body.appendChild(this.#rendererManager.renderer.domElement)
+  /**
+   * Render frames offline
+   *
+   * @param   {{
+   *            fps     ?: number;
+   *            duration : number;
+   *            type    ?: string;
+   *            scale   ?: number;
+   *            quality ?: number;
+   *          }} options
+   * @returns {AsyncGenerator<Blob>}
+   * @note    The render loop is stopped, and the simulation is advanced
+   *          with a fixed step (`1 / fps`) before each frame is captured.
+   *          In this way, the frame sequence does not depend on the
+   *          device performance.
+   *          It starts from the current simulation time
+   *          (`setTime()` can be used to start from a given time)
+   */
+  async *renderFrames(options: FrameSequenceOptions): AsyncGenerator<Blob> {
+    const fps = options.fps ?? DEFAULT_CAPTURE_FPS
+    const frames = Math.round(options.duration * fps)
+
+    this.#isRenderingOffline = true
+    this.#updateLoop()
+    try {
+      for (let i = 0; i < frames; i++) {
+        this.#advance(1 / fps)
+        yield await this.#captureManager.captureFrame(
+          options.type,
+          options.scale,
+          options.quality,
+        )
+      }
+    } finally {
+      this.#isRenderingOffline = false
+      this.#updateLoop()
     }
   }
 
   /**
-   * Init model loader manager
+   * Set pointer settings
    *
+   * @param   {{
+   *            strength      ?: number;
+   *            minRad        ?: number;
+   *            maxRad        ?: number;
+   *            pulseStrength ?: number;
+   *            pulseFrequency?: number;
+   *          }} settings
+   * @param   {{duration?: number; easing?: (t: number) => number}} transition
    * @returns {void}
+   * @note    If a transition duration (in seconds) is given,
+   *          the settings are tweened from their current values
    */
-  #initModelLoaderManager(): void {
-    this.#modelLoaderManager = new ModelLoaderManager(
-      this.#config.loader?.dracoUrl,
+  setPointer(settings: PointerConfig, transition: Transition = {}): void {
+    this.#pointerSettings = {
+      ...this.#pointerSettings,
+      ...this.#getDefinedSettings(settings),
+    }
+    this.#tweenSettings(
+      'pointer',
+      this.#runner.getPointerSettings(),
+      settings,
+      transition,
+      (values) => this.#runner.setPointerSettings(values),
     )
   }
 
   /**
-   * Init timer
+   * Set point motion settings
    *
+   * @param   {{
+   *            frequency?: number;
+   *            strength ?: number;
+   *            ratio    ?: number;
+   *            lifeDecay?: number;
+   *          }} settings
+   * @param   {{duration?: number; easing?: (t: number) => number}} transition
    * @returns {void}
+   * @note    If a transition duration (in seconds) is given,
+   *          the settings are tweened from their current values
    */
-  #initTimer(): void {
-    this.#timer = new Timer()
+  setMotion(
+    settings: ModelSourcePointMotion,
+    transition: Transition = {},
+  ): void {
+    this.#pointSettings.motion = {
+      ...this.#pointSettings.motion,
+      ...this.#getDefinedSettings(settings),
+    }
+
+    const current = this.#runner.model.getMotionSettings()
+    if (current) {
+      this.#tweenSettings('motion', current, settings, transition, (values) =>
+        this.#runner.model.setMotionSettings(values),
+      )
+    }
   }
 
   /**
-   * Init debug manager
+   * Set point size
    *
+   * @param   {number}                                              size
+   * @param   {{duration?: number; easing?: (t: number) => number}} transition
    * @returns {void}
-   * @note    Disable debug feature by default
+   * @note    If a transition duration (in seconds) is given,
+   *          the size is tweened from its current value
    */
-  #initDebugManager(): void {
-    this.#debugManager = new DebugManager()
-    this.#debugManager.disable()
-    this.#isDebugging = false
+  setPointSize(size: number, transition: Transition = {}): void {
+    this.#pointSettings.size = size
+    this.#tweenManager.tween(
+      'point.size',
+      this.#runner.model.getPointSize(),
+      size,
+      transition.duration ?? 0,
+      (value) => this.#runner.model.setPointSize(value),
+      transition.easing,
+    )
+  }
 
-    this.#boundHandleDebug = this.#handleDebug.bind(this)
-    document.addEventListener('keydown', this.#boundHandleDebug)
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#dispose()
+
+    this.#eventManager.emit('dispose', {})
+    this.#eventManager.dispose()
+  }
+
+  /**
+   * Dispose/reset this entry point
+   *
+   * @returns {void}
+   */
+  #dispose(): void {
+    this.#stopLoop()
+    this.#visibilityManager?.dispose()
+    this.#visibilityManager = null
+    this.#isSuspended = false
+    this.#resizeManager?.dispose()
+    this.#resizeManager = null
+
+    this.#clockManager.dispose()
+    this.#tweenManager.dispose()
+    this.#runner.dispose()
+    this.#rendererManager.dispose()
+    this.#modelLoaderManager.dispose()
+    this.#loadProgress.clear()
+
+    this.#statsManager?.dispose()
+    this.#statsManager = null
+    this.#disposeDebugManager()
+
+    window.removeEventListener('resize', this.#boundHandleResize)
+
+    /**
+     * @note Reset debug flag
+     * @todo Improve this logic.
+     *       It was implemented in this way to release faster
+     */
+    this.#isDebugReady = false
+  }
+
+  /**
+   * Validate config
+   *
+   * @param   {Config} config
+   * @returns {void}
+   * @throws  ConfigError
+   * @note    With `lenient` validation, problems are reported
+   *          as warnings and the initialization continues
+   */
+  #validateConfig(config: Config): void {
+    const issues = new ConfigManager().validate(config)
+    if (!issues.length) {
+      return
+    }
+
+    const error = new ConfigError(issues)
+    if (config?.validation === 'lenient') {
+      console.warn(error.message)
+    } else {
+      throw error
+    }
+  }
+
+  /**
+   * Init
+   *
+   * @returns {void}
+   */
+  #init(): void {
+    this.#initDebug()
+    this.#initClockManager()
+    this.#initRendererManager()
+    this.#initModelLoaderManager()
+    this.#initCaptureManager()
+    this.#initRunner()
+    this.#load()
+
+    this.#boundHandleResize = this.#handleResize.bind(this)
+    window.addEventListener('resize', this.#boundHandleResize)
+
+    if (this.#config.autoPause) {
+      this.#initVisibilityManager()
+    }
+
+    this.#updateLoop()
+  }
+
+  /**
+   * Load runner
+   *
+   * @returns {void}
+   * @note    If debugger is enabled by default,
+   *          wait for model to be loaded to initialize it
+   * @note    If the runner is replaced before it is loaded
+   *          (i.e.: on breakpoint change), its result is ignored
+   */
+  #load(): void {
+    const runner = this.#runner
+    runner
+      .load(this.#handleLoadProgress.bind(this))
+      .then(() => {
+        if (runner !== this.#runner) {
+          return
+        }
+
+        if (this.#config.isDebugging && this.#isDebugAvailable) {
+          this.#isDebugging = true
+          this.#enableDebug()
+        }
+
+        this.#fulfillReady()
+        this.#eventManager.emit('ready', {
+          breakpoint: this.#modelManager.currentBreakpoint,
+        })
+      })
+      .catch((error) => {
+        if (runner !== this.#runner) {
+          return
+        }
+
+        this.#handleError(error)
+      })
+  }
+
+  /**
+   * Render
+   *
+   * @param   {number} t
+   * @returns {void}
+   */
+  #render(t?: number): void {
+    if (t === undefined || (this.#qualityManager?.update(t) ?? true)) {
+      const statsManager = this.#isDebugging ? this.#statsManager : null
+      statsManager?.begin()
+
+      const deltaTime = this.#clockManager.update(t)
+      if (!this.#clockManager.isManual) {
+        statsManager?.beginSection('compute')
+        this.#advance(deltaTime, true)
+        statsManager?.endSection('compute')
+      }
+      statsManager?.beginSection('render')
+      this.#rendererManager.update(deltaTime)
+      statsManager?.endSection('render')
+
+      statsManager?.end(
+        this.#runner.model.getPointCount(),
+        this.#runner.model.getTextureSize(),
+      )
+    }
+
+    this.#requestAnimationId = requestAnimationFrame(this.#render.bind(this))
+  }
+
+  /**
+   * Advance the simulation
+   *
+   * @param   {number}  deltaTime
+   * @param   {boolean} isRealTime
+   * @returns {void}
+   */
+  #advance(deltaTime: number, isRealTime: boolean = false): void {
+    this.#clockManager.advance(
+      deltaTime,
+      (delta, elapsedTime) => this.#update(delta, elapsedTime),
+      isRealTime,
+    )
+  }
+
+  /**
+   * Update a simulation step
+   *
+   * @param   {number} deltaTime
+   * @param   {number} elapsedTime
+   * @returns {void}
+   * @note    Every clock (and every way to advance it) uses this method
+   *          for each step, so the result only depends on the steps
+   *          (i.e.: transitions are advanced with the simulation time)
+   */
+  #update(deltaTime: number, elapsedTime: number): void {
+    this.#tweenManager.update(deltaTime)
+    this.#runner.update(deltaTime, elapsedTime)
+  }
+
+  /**
+   * Start or stop the render loop depending on the pause state
+   *
+   * @returns {void}
+   */
+  #updateLoop(): void {
+    if (this.#isPaused || this.#isSuspended || this.#isRenderingOffline) {
+      this.#stopLoop()
+    } else {
+      this.#startLoop()
+    }
+  }
+
+  /**
+   * Start render loop
+   *
+   * @returns {void}
+   * @note    Clock is reset before rendering, so the time elapsed
+   *          while the loop was stopped does not produce a huge delta
+   *          (and it is not measured by the adaptive quality)
+   */
+  #startLoop(): void {
+    if (this.#requestAnimationId === null) {
+      this.#clockManager.reset()
+      this.#qualityManager?.reset()
+      this.#render()
+    }
+  }
+
+  /**
+   * Stop render loop
+   *
+   * @returns {void}
+   */
+  #stopLoop(): void {
+    if (this.#requestAnimationId !== null) {
+      cancelAnimationFrame(this.#requestAnimationId)
+      this.#requestAnimationId = null
+    }
+  }
+
+  /**
+   * Handle resize
+   *
+   * @returns {void}
+   * @note    If the breakpoint changes, it is applied
+   *          the model related to the new breakpoint
+   */
+  #handleResize(): void {
+    this.#updateBreakpoint(() => this.#modelManager.update())
+  }
 
-    if (this.#config.containerSelector) {
-      document
-        .querySelector(this.#config.containerSelector)
-        ?.appendChild(this.#debugManager.debugger.element)
+  /**
+   * Update breakpoint
+   *
+   * @param   {() => boolean} update
+   * @returns {void}
+   * @note    The given function updates the model manager,
+   *          and it returns if the breakpoint changed
+   */
+  #updateBreakpoint(update: () => boolean): void {
+    const previousBreakpoint = this.#modelManager.currentBreakpoint
+    const previousModel = this.#modelManager.currentModel
+    if (update()) {
+      this.#eventManager.emit('breakpointchange', {
+        breakpoint: this.#modelManager.currentBreakpoint,
+        previousBreakpoint: previousBreakpoint,
+        model: this.#modelManager.currentModel,
+      })
+
+      this.#applyModel(previousModel)
+    }
+  }
+
+  /**
+   * Apply current model
+   *
+   * @param   {ModelSource} previousModel
+   * @returns {void}
+   * @note    Renderer, model loader and debugger are reused.
+   *          Only the entities whose sources changed are rebuilt
+   *          (models are cached by the model loader,
+   *          so they are not downloaded again).
+   *          Otherwise, it is only updated the entity settings
+   */
+  #applyModel(previousModel: ModelSource): void {
+    const currentModel = this.#modelManager.currentModel
+
+    this.#resizeManager?.dispose()
+    this.#resizeManager = null
+    this.#rendererManager.setSize(...this.#getSize())
+    if (this.#isContainerSized()) {
+      this.#initResizeManager()
+    }
+
+    this.#rendererManager.setCamera(
+      this.#getCameraPosition(),
+      currentModel.camera?.fov,
+      currentModel.camera?.near,
+      currentModel.camera?.far,
+      currentModel.camera?.isControlsEnabled,
+    )
+
+    this.#loadProgress.clear()
+    const onProgress = this.#handleLoadProgress.bind(this)
+    const replacements: Promise<boolean>[] = []
+    let model = this.#runner.model
+    if (
+      this.#hasSourceChanged(currentModel, previousModel, 'highPoly') ||
+      this.#hasSamplingChanged(currentModel, previousModel)
+    ) {
+      model = this.#initModel()
+      replacements.push(this.#runner.replaceModel(model, onProgress))
+    } else {
+      this.#runner.resetModelSettings(
+        this.#pointSettings.size ?? currentModel.point?.size,
+        {...currentModel.point?.motion, ...this.#pointSettings.motion},
+      )
+    }
+
+    if (this.#hasSourceChanged(currentModel, previousModel, 'lowPoly')) {
+      replacements.push(
+        this.#runner.replacePointer(this.#initPointer(model), onProgress),
+      )
+    }
+
+    if (replacements.length) {
+      this.#waitForReplacements(replacements)
+    }
+  }
+
+  /**
+   * Check if the model source of an entity changed
+   *
+   * @param   {ModelSource}           currentModel
+   * @param   {ModelSource}           previousModel
+   * @param   {'highPoly' | 'lowPoly'} key
+   * @returns {boolean}
+   * @note    If a model does not have a low poly version,
+   *          the pointer proxy depends on the high poly model
+   */
+  #hasSourceChanged(
+    currentModel: ModelSource,
+    previousModel: ModelSource,
+    key: 'highPoly' | 'lowPoly',
+  ): boolean {
+    const current = currentModel.src
+    const previous = previousModel.src
+    if (
+      key === 'lowPoly' &&
+      (!current.lowPoly || !previous.lowPoly) &&
+      (current.lowPoly !== previous.lowPoly ||
+        current.highPoly !== previous.highPoly ||
+        current.proxyTriangles !== previous.proxyTriangles)
+    ) {
+      return true
+    }
+
+    return (
+      current[key] !== previous[key] ||
+      current.format !== previous.format ||
+      String(current.meshes) !== String(previous.meshes)
+    )
+  }
+
+  /**
+   * Check if the point sampling (or point color) of the model changed
+   *
+   * @param   {ModelSource} currentModel
+   * @param   {ModelSource} previousModel
+   * @returns {boolean}
+   * @note    Points are sampled (and colored) when the model is loaded,
+   *          so the model must be rebuilt if the sampling changed
+   */
+  #hasSamplingChanged(
+    currentModel: ModelSource,
+    previousModel: ModelSource,
+  ): boolean {
+    const current = currentModel.point?.sampling
+    const previous = previousModel.point?.sampling
+    return (
+      current?.mode !== previous?.mode ||
+      current?.count !== previous?.count ||
+      currentModel.point?.color !== previousModel.point?.color
+    )
+  }
+
+  /**
+   * Get the options used to load the current model
+   *
+   * @returns {ModelLoadOptions}
+   */
+  #getLoadOptions(): ModelLoadOptions {
+    return {
+      meshes: this.#modelManager.currentModel.src.meshes,
+      format: this.#modelManager.currentModel.src.format,
+    }
+  }
+
+  /**
+   * Wait for entity replacements
+   *
+   * @param   {Promise<boolean>[]} replacements
+   * @returns {void}
+   * @note    If a replacement was discarded because a newer one
+   *          was requested, it is waited for the newer one
+   * @note    Debug settings are rebuilt, because they are bound to
+   *          the replaced entities
+   */
+  #waitForReplacements(replacements: Promise<boolean>[]): void {
+    const runner = this.#runner
+    Promise.all(replacements)
+      .then((results) => {
+        if (runner !== this.#runner || results.includes(false)) {
+          return
+        }
+
+        this.#resetDebug()
+        this.#fulfillReady()
+        this.#eventManager.emit('ready', {
+          breakpoint: this.#modelManager.currentBreakpoint,
+        })
+      })
+      .catch((error) => {
+        if (runner === this.#runner) {
+          this.#handleError(error)
+        }
+      })
+  }
+
+  /**
+   * Handle load progress
+   *
+   * @param   {string}        url
+   * @param   {ProgressEvent} e
+   * @returns {void}
+   * @note    The overall progress only takes into consideration
+   *          the loads that have a known total size
+   */
+  #handleLoadProgress(url: string, e: ProgressEvent): void {
+    this.#loadProgress.set(url, {loaded: e.loaded, total: e.total})
+
+    let loaded = 0
+    let total = 0
+    for (const progress of this.#loadProgress.values()) {
+      if (progress.total) {
+        loaded += progress.loaded
+        total += progress.total
+      }
+    }
+
+    this.#eventManager.emit('load:progress', {
+      url: url,
+      loaded: e.loaded,
+      total: e.total,
+      progress: total ? loaded / total : 0,
+    })
+  }
+
+  /**
+   * Handle error
+   *
+   * @param   {unknown} error
+   * @returns {void}
+   * @note    Errors before the first load reject the `ready` promise.
+   *          If nobody listens to errors, the rejection is not handled
+   *          (unless the promise is awaited), and later errors
+   *          are reported as uncaught errors,
+   *          so they are not silently swallowed
+   */
+  #handleError(error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error))
+    const hasListener = this.#eventManager.has('error')
+
+    if (this.#readyState === 'pending') {
+      if (hasListener) {
+        this.#ready.catch(() => {})
+      }
+
+      this.#readyState = 'rejected'
+      this.#rejectReady(err)
+    } else if (!hasListener) {
+      reportError(err)
+    }
+
+    if (hasListener) {
+      this.#eventManager.emit('error', {error: err})
+    }
+  }
+
+  /**
+   * Fulfill the ready promise
+   *
+   * @returns {void}
+   * @note    If it was rejected, it is replaced with a resolved promise
+   */
+  #fulfillReady(): void {
+    if (this.#readyState === 'rejected') {
+      this.#ready = Promise.resolve()
+    } else {
+      this.#resolveReady()
+    }
+
+    this.#readyState = 'fulfilled'
+  }
+
+  /**
+   * Get the settings that are defined
+   *
+   * @param   {object} settings
+   * @returns {object}
+   * @note    Settings set to `undefined` (i.e.: optional props
+   *          of a component) are removed, so they do not override
+   *          the current values when settings are merged
+   */
+  #getDefinedSettings<T extends object>(settings: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(settings).filter(([, value]) => value !== undefined),
+    ) as Partial<T>
+  }
+
+  /**
+   * Tween settings
+   *
+   * @param   {string}                    name
+   * @param   {Record<string, number>}    current
+   * @param   {object}                    settings
+   * @param   {object}                    transition
+   * @param   {(values: object) => void} apply
+   * @returns {void}
+   * @note    Each setting is tweened by its own,
+   *          so it is possible to transition different settings
+   *          at the same time
+   */
+  #tweenSettings<T extends object>(
+    name: string,
+    current: Required<T>,
+    settings: T,
+    transition: Transition,
+    apply: (values: T) => void,
+  ): void {
+    for (const key of Object.keys(current) as (keyof T)[]) {
+      const value = settings[key]
+      if (typeof value !== 'number') {
+        continue
+      }
+
+      this.#tweenManager.tween(
+        `${name}.${String(key)}`,
+        current[key] as number,
+        value,
+        transition.duration ?? 0,
+        (tweenedValue) => apply({[key]: tweenedValue} as T),
+        transition.easing,
+      )
+    }
+  }
+
+  /**
+   * Handle debug
+   *
+   * @param   {KeyboardEvent} e
+   * @returns {void}
+   */
+  #handleDebug(e: KeyboardEvent): void {
+    if (this.#isDebugTarget(e)) {
+      this.#isDebugging = !this.#isDebugging
+
+      if (this.#isDebugging) {
+        this.#enableDebug()
+      } else {
+        this.#disableDebug()
+      }
     }
   }
+
+  /**
+   * Check if the debug key event targets this instance
+   *
+   * @param   {KeyboardEvent} e
+   * @returns {boolean}
+   * @note    Several instances can live on the same page.
+   *          That is why, if there are other instances, the key event
+   *          is only handled if it is dispatched from an element
+   *          of the instance container (i.e.: a focused debug control)
+   *          or if the pointer is over it.
+   *          The composed path is used, so containers inside
+   *          a shadow root are also matched
+   */
+  #isDebugTarget(e: KeyboardEvent): boolean {
+    if (Main.#hotkeyInstances.size === 1) {
+      return true
+    }
+
+    const container = this.#getContainer()
+    if (!container) {
+      return false
+    }
+
+    return e.composedPath().includes(container) || container.matches(':hover')
+  }
+
+  /**
+   * Enable debug
+   *
+   * @returns {Promise<void>}
+   * @note    Debug manager is loaded on demand. If debug is disabled
+   *          or the instance is reset while it is loading,
+   *          debug settings are not created
+   */
+  async #enableDebug(): Promise<void> {
+    const debugManager = await this.#loadDebugManager()
+    if (!debugManager || !this.#isDebugging) {
+      return
+    }
+
+    /**
+     * @note App debug settings should be enabled only once,
+     *       to avoid duplicating them on every debug enable
+     *       event
+     * @todo Improve this logic.
+     *       It was implemented in this way to release faster
+     */
+    if (!this.#isDebugReady) {
+      this.#debug()
+      this.#isDebugReady = true
+    }
+
+    if (!this.#statsManager) {
+      this.#statsManager = new StatsManager(this.#rendererManager.renderer)
+      debugManager.addStatsFolder(this.#statsManager.stats)
+    }
+
+    debugManager.enable()
+    this.#runner.setOverlayEnabled(true)
+  }
+
+  /**
+   * Reset debug
+   *
+   * @returns {void}
+   * @note    App debug settings are re-created (if they were created),
+   *          so they are bound to the current app entities
+   */
+  #resetDebug(): void {
+    if (this.#isDebugReady && this.#debugManager) {
+      this.#debugManager.clear()
+      this.#debug()
+    }
+  }
+
+  /**
+   * Add debug folders
+   *
+   * @returns {void}
+   */
+  #debug(): void {
+    if (!this.#debugManager) {
+      return
+    }
+
+    this.#debugBreakpoint(this.#debugManager)
+    this.#rendererManager.debug(this.#debugManager)
+    this.#runner.debug(this.#debugManager)
+  }
+
+  /**
+   * Add breakpoint debug folder
+   *
+   * @param   {DebugManager} debugManager
+   * @returns {void}
+   * @note    It is possible to simulate a breakpoint,
+   *          forcing the model that should be used
+   */
+  #debugBreakpoint(debugManager: DebugManager): void {
+    const breakpointFolder = debugManager.addFolder({
+      title: 'Breakpoint',
+    })
+
+    breakpointFolder.addBinding(this.#modelManager, 'currentBreakpoint', {
+      label: 'current',
+      readonly: true,
+      format: (value: number) => String(value),
+    })
+
+    const options: Record<string, number> = {auto: -1}
+    for (const breakpoint of this.#modelManager.getBreakpoints()) {
+      options[breakpoint] = breakpoint
+    }
+    debugManager
+      .addBinding(
+        'simulate',
+        this.#modelManager.getForcedBreakpoint() ?? -1,
+        {options: options},
+        breakpointFolder,
+      )
+      .on('change', (e) => {
+        this.#updateBreakpoint(() =>
+          this.#modelManager.forceBreakpoint(e.value < 0 ? null : e.value),
+        )
+      })
+  }
+
+  /**
+   * Disable debug
+   *
+   * @returns {void}
+   */
+  #disableDebug(): void {
+    this.#debugManager?.disable()
+    this.#runner.setOverlayEnabled(false)
+  }
+
+  /**
+   * Dispose debug manager
+   *
+   * @returns {void}
+   */
+  #disposeDebugManager(): void {
+    this.#hotkeyManager?.dispose()
+    this.#hotkeyManager = null
+    Main.#hotkeyInstances.delete(this)
+    this.#debugManager?.dispose()
+    this.#debugManager = null
+    this.#debugManagerPromise = null
+    this.#isDebugging = false
+  }
+
+  /**
+   * Init runner
+   *
+   * @returns {void}
+   */
+  #initRunner(): void {
+    const model = this.#initModel()
+    const pointer = this.#initPointer(model)
+    this.#runner = new Runner(
+      model,
+      pointer,
+      this.#rendererManager,
+      this.#pointerSettings.strength,
+      this.#pointerSettings.minRad,
+      this.#pointerSettings.maxRad,
+      this.#pointerSettings.pulseStrength,
+      this.#pointerSettings.pulseFrequency,
+    )
+  }
+
+  /**
+   * Init pointer
+   *
+   * @param   {Model}   model
+   * @returns {Pointer}
+   * @note    If there is not a low poly model, the high poly model
+   *          is used to generate a raycast proxy
+   *          (from the mesh loaded by the given model)
+   */
+  #initPointer(model: Model): Pointer {
+    const src = this.#modelManager.currentModel.src
+
+    return new Pointer(
+      this.#rendererManager,
+      src.lowPoly ?? src.highPoly,
+      this.#modelLoaderManager,
+      this.#getLoadOptions(),
+      src.lowPoly ? null : src.proxyTriangles ?? DEFAULT_PROXY_TRIANGLES,
+      src.lowPoly ? null : model,
+    )
+  }
+
+  /**
+   * Init model
+   *
+   * @returns {Model}
+   * @note    Each model has its own random manager, so if a seed is set,
+   *          the model output does not depend on previously loaded models
+   */
+  #initModel(): Model {
+    const motion = {
+      ...this.#modelManager.currentModel.point?.motion,
+      ...this.#pointSettings.motion,
+    }
+    const gpGpuManager = new GpGpuManager(this.#rendererManager)
+    const randomManager = new RandomManager(this.#config.seed)
+    const flowFieldManager = new FlowFieldManager(
+      gpGpuManager,
+      randomManager,
+      motion.frequency,
+      motion.strength,
+      motion.ratio,
+      motion.lifeDecay,
+    )
+
+    return new Model(
+      flowFieldManager,
+      randomManager,
+      this.#modelManager.currentModel.src.highPoly,
+      this.#modelLoaderManager,
+      this.#pointSettings.size ?? this.#modelManager.currentModel.point?.size,
+      this.#qualityManager?.getTier().pointRatio,
+      this.#getLoadOptions(),
+      this.#modelManager.currentModel.point?.sampling,
+      this.#modelManager.currentModel.point?.color,
+    )
+  }
+
+  /**
+   * Init renderer manager
+   *
+   * @returns {void}
+   */
+  #initRendererManager(): void {
+    const [width, height] = this.#getSize()
+    this.#rendererManager = new RendererManager(
+      width,
+      height,
+      this.#getCameraPosition(),
+      this.#modelManager.currentModel.camera?.fov,
+      this.#modelManager.currentModel.camera?.near,
+      this.#modelManager.currentModel.camera?.far,
+      this.#modelManager.currentModel.camera?.isControlsEnabled,
+      this.#config.renderer?.isShared,
+    )
+
+    if (this.#qualityManager) {
+      this.#rendererManager.setPixelRatio(this.#qualityManager.getTier().dpr)
+    }
+
+    this.#getContainer()?.appendChild(this.#rendererManager.canvas)
+
+    if (this.#isContainerSized()) {
+      this.#initResizeManager()
+    }
+  }
+
+  /**
+   * Get camera position
+   *
+   * @returns {THREE.Vector3 | undefined}
+   */
+  #getCameraPosition(): THREE.Vector3 | undefined {
+    const position = this.#modelManager.currentModel.camera?.position
+    return position
+      ? new THREE.Vector3(position.x, position.y, position.z)
+      : undefined
+  }
+
+  /**
+   * Init capture manager
+   *
+   * @returns {void}
+   */
+  #initCaptureManager(): void {
+    this.#captureManager = new CaptureManager(this.#rendererManager)
+  }
+
+  /**
+   * Init quality manager
+   *
+   * @returns {void}
+   */
+  #initQualityManager(): void {
+    this.#qualityManager = new QualityManager(
+      this.#handleQualityChange.bind(this),
+      this.#config.quality?.targetFps,
+      this.#config.quality?.minDpr,
+      this.#config.quality?.maxDpr,
+    )
+  }
+
+  /**
+   * Handle quality change
+   *
+   * @param   {QualityTier} tier
+   * @param   {QualityTier} previousTier
+   * @returns {void}
+   */
+  #handleQualityChange(tier: QualityTier, previousTier: QualityTier): void {
+    this.#rendererManager.setPixelRatio(tier.dpr)
+    this.#runner.setPointRatio(tier.pointRatio)
+
+    this.#eventManager.emit('qualitychange', {
+      tier: tier,
+      previousTier: previousTier,
+    })
+  }
+
+  /**
+   * Init resize manager
+   *
+   * @returns {void}
+   * @note    Canvas is displayed as block to avoid the inline gap
+   *          that would make the container grow on every resize
+   */
+  #initResizeManager(): void {
+    const container = this.#getContainer()
+    if (container) {
+      this.#rendererManager.canvas.style.display = 'block'
+      this.#resizeManager = new ResizeManager(container, () => {
+        this.#rendererManager.setSize(...this.#getSize())
+      })
+    }
+  }
+
+  /**
+   * Get container
+   *
+   * @returns {HTMLElement | null}
+   */
+  #getContainer(): HTMLElement | null {
+    const container = this.#config.container ?? this.#config.containerSelector
+    if (container instanceof HTMLElement) {
+      return container
+    }
+
+    if (container) {
+      return document.querySelector<HTMLElement>(container)
+    }
+
+    return document.body
+  }
+
+  /**
+   * Check if the renderer size follows the container size
+   *
+   * @returns {boolean}
+   */
+  #isContainerSized(): boolean {
+    return (
+      this.#modelManager.currentModel.width === 'container' ||
+      this.#modelManager.currentModel.height === 'container'
+    )
+  }
+
+  /**
+   * Get renderer size
+   *
+   * @returns {[number, number]}
+   * @note    If the size follows the container,
+   *          it is used the container content size.
+   *          A minimum size of `1` is used to avoid an invalid camera aspect
+   */
+  #getSize(): [number, number] {
+    const {width, height} = this.#modelManager.currentModel
+    const container = this.#getContainer() ?? document.body
+
+    return [
+      Math.max(1, width === 'container' ? container.clientWidth : width),
+      Math.max(1, height === 'container' ? container.clientHeight : height),
+    ]
+  }
+
+  /**
+   * Init visibility manager
+   *
+   * @returns {void}
+   * @note    Render loop is suspended while the canvas
+   *          is off-screen or the document is hidden
+   */
+  #initVisibilityManager(): void {
+    this.#visibilityManager = new VisibilityManager(
+      this.#rendererManager.canvas,
+      (isVisible) => {
+        this.#isSuspended = !isVisible
+        this.#updateLoop()
+      },
+    )
+  }
+
+  /**
+   * Init model loader manager
+   *
+   * @returns {void}
+   */
+  #initModelLoaderManager(): void {
+    this.#modelLoaderManager = new ModelLoaderManager(
+      this.#config.loader?.dracoUrl,
+      this.#config.loader?.ktx2TranscoderUrl,
+      this.#config.loader?.meshopt,
+      this.#rendererManager.renderer,
+    )
+  }
+
+  /**
+   * Init clock manager
+   *
+   * @returns {void}
+   */
+  #initClockManager(): void {
+    this.#clockManager = new ClockManager(
+      this.#config.clock === 'manual',
+      this.#config.fixedTimeStep,
+      this.#config.maxSubSteps,
+    )
+  }
+
+  /**
+   * Init debug
+   *
+   * @returns {void}
+   * @note    Debug is disabled by default.
+   *          The debug manager is not created until debug is enabled
+   */
+  #initDebug(): void {
+    this.#isDebugging = false
+    this.#isDebugAvailable = this.#isDebugEnabled()
+    if (!this.#isDebugAvailable) {
+      return
+    }
+
+    const hotkey = this.#config.debug?.hotkey ?? DEFAULT_DEBUG_HOTKEY
+    if (hotkey !== false) {
+      this.#hotkeyManager = new HotkeyManager(
+        hotkey,
+        this.#handleDebug.bind(this),
+      )
+      Main.#hotkeyInstances.add(this)
+    }
+  }
+
+  /**
+   * Check if debug can be enabled
+   *
+   * @returns {boolean}
+   */
+  #isDebugEnabled(): boolean {
+    const enabled = this.#config.debug?.enabled ?? true
+    if (enabled === 'url-param') {
+      return new URLSearchParams(window.location.search).has(DEBUG_URL_PARAM)
+    }
+
+    return enabled
+  }
+
+  /**
+   * Load debug manager
+   *
+   * @returns {Promise<DebugManager | null>}
+   * @note    The debug manager (and the debug library) is imported
+   *          on demand, so it is not loaded if debug is never enabled
+   * @note    If the instance is reset while the debug manager is loading,
+   *          the loaded debug manager is discarded and `null` is returned
+   */
+  #loadDebugManager(): Promise<DebugManager | null> {
+    if (!this.#debugManagerPromise) {
+      const promise: Promise<DebugManager | null> = import(
+        '../services/debug-manager.js'
+      )
+        .then(({default: DebugManager}) => {
+          if (promise !== this.#debugManagerPromise) {
+            return null
+          }
+
+          const debugManager = new DebugManager(
+            () => this.exportConfig(),
+            (config) => this.importConfig(config),
+          )
+          debugManager.disable()
+
+          if (this.#config.container || this.#config.containerSelector) {
+            this.#getContainer()?.appendChild(debugManager.debugger.element)
+          }
+
+          this.#debugManager = debugManager
+          return debugManager
+        })
+        .catch((error) => {
+          if (promise === this.#debugManagerPromise) {
+            this.#debugManagerPromise = null
+            this.#handleError(error)
+          }
+
+          return null
+        })
+      this.#debugManagerPromise = promise
+    }
+
+    return this.#debugManagerPromise
+  }
 }
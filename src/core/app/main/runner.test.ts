@@ -0,0 +1,174 @@
+/**
+ * @description Runner tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import * as THREE from 'three'
+import {describe, expect, it, vi} from 'vitest'
+import Runner from './runner.js'
+import type Model from './runner/model.js'
+import type Pointer from './runner/pointer.js'
+import type RendererManager from '../../services/renderer-manager.js'
+
+/**
+ * @note Entity whose load is resolved or rejected by the test
+ */
+interface FakeEntity {
+  points: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial>
+  mesh: THREE.Mesh
+  load: () => Promise<void>
+  dispose: () => void
+  resolve: () => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Create fake entity
+ *
+ * @returns {FakeEntity}
+ */
+const createEntity = (): FakeEntity => {
+  let resolve: () => void = () => {}
+  let reject: (error: Error) => void = () => {}
+  const load = new Promise<void>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+
+  return {
+    points: new THREE.Points(
+      new THREE.BufferGeometry(),
+      new THREE.ShaderMaterial(),
+    ),
+    mesh: new THREE.Mesh(),
+    load: vi.fn(() => load),
+    dispose: vi.fn(),
+    resolve: () => resolve(),
+    reject: (error: Error) => reject(error),
+  }
+}
+
+/**
+ * Create runner
+ *
+ * @returns {{runner: Runner; scene: THREE.Scene; compile: () => void; model: FakeEntity; pointer: FakeEntity}}
+ * @note    Renderer compiles the model shader when the model is initialized
+ */
+const createRunner = (): {
+  runner: Runner
+  scene: THREE.Scene
+  compile: () => void
+  model: FakeEntity
+  pointer: FakeEntity
+} => {
+  const scene = new THREE.Scene()
+  const compile = vi.fn()
+  const model = createEntity()
+  const pointer = createEntity()
+  const runner = new Runner(
+    model as unknown as Model,
+    pointer as unknown as Pointer,
+    {scene: scene, compile: compile} as unknown as RendererManager,
+  )
+
+  return {
+    runner: runner,
+    scene: scene,
+    compile: compile,
+    model: model,
+    pointer: pointer,
+  }
+}
+
+describe('Runner', () => {
+  it('adds the loaded entities to the scene', async () => {
+    const {runner, scene, model, pointer} = createRunner()
+    const load = runner.load()
+    model.resolve()
+    pointer.resolve()
+    await load
+
+    expect(scene.children).toEqual([model.points, pointer.mesh])
+  })
+
+  it('ignores the first model when it is replaced while loading', async () => {
+    const {runner, scene, compile, model, pointer} = createRunner()
+    const load = runner.load()
+    pointer.resolve()
+
+    const nextModel = createEntity()
+    const replacement = runner.replaceModel(nextModel as unknown as Model)
+    nextModel.resolve()
+
+    expect(await replacement).toBe(true)
+    expect(model.dispose).toHaveBeenCalledOnce()
+
+    model.resolve()
+    await load
+
+    expect(runner.model).toBe(nextModel)
+    expect(scene.children).toEqual([pointer.mesh, nextModel.points])
+    expect(compile).toHaveBeenCalledOnce()
+  })
+
+  it('ignores the errors of a replaced first model', async () => {
+    const {runner, model, pointer} = createRunner()
+    const load = runner.load()
+    pointer.resolve()
+
+    const nextModel = createEntity()
+    const replacement = runner.replaceModel(nextModel as unknown as Model)
+    nextModel.resolve()
+    await replacement
+
+    model.reject(new Error('Not found.'))
+
+    await expect(load).resolves.toBeUndefined()
+  })
+
+  it('ignores the first pointer when it is replaced while loading', async () => {
+    const {runner, scene, model, pointer} = createRunner()
+    const load = runner.load()
+    model.resolve()
+
+    const nextPointer = createEntity()
+    const replacement = runner.replacePointer(nextPointer as unknown as Pointer)
+    nextPointer.resolve()
+    await replacement
+
+    pointer.reject(new Error('Not found.'))
+    await load
+
+    expect(pointer.dispose).toHaveBeenCalledOnce()
+    expect(scene.children).toEqual([model.points, nextPointer.mesh])
+  })
+
+  it('discards a replacement when a newer one is requested', async () => {
+    const {runner, scene, model, pointer} = createRunner()
+    model.resolve()
+    pointer.resolve()
+    await runner.load()
+
+    const firstModel = createEntity()
+    const secondModel = createEntity()
+    const firstReplacement = runner.replaceModel(firstModel as unknown as Model)
+    const secondReplacement = runner.replaceModel(
+      secondModel as unknown as Model,
+    )
+    firstModel.resolve()
+    secondModel.resolve()
+
+    expect(await firstReplacement).toBe(false)
+    expect(await secondReplacement).toBe(true)
+    expect(firstModel.dispose).toHaveBeenCalledOnce()
+    expect(scene.children).not.toContain(firstModel.points)
+  })
+
+  it('rejects the first load when the current model fails', async () => {
+    const {runner, model, pointer} = createRunner()
+    const load = runner.load()
+    pointer.resolve()
+    model.reject(new Error('Not found.'))
+
+    await expect(load).rejects.toThrow('Not found.')
+  })
+})
@@ -10,9 +10,12 @@ import * as THREE from 'three'
 import RendererManager from '../../services/renderer-manager.js'
 import Pointer from './runner/pointer.js'
 import Model from './runner/model.js'
-import DebugManager from '../../services/debug-manager.js'
+import Overlay from './runner/overlay.js'
+import type {OverlayName} from './runner/overlay.js'
+import type DebugManager from '../../services/debug-manager.js'
 import parsVertexShader from './runner/shader/pars_vertex.glsl'
 import positionVertexShader from './runner/shader/position_vertex.glsl'
+import type {ModelSourcePointMotion, PointerConfig} from '../../types'
 
 /**
  * @constant
@@ -44,16 +47,41 @@ const DEFAULT_POINTER_PULSE_STRENGTH: number = 0.2
  */
 const DEFAULT_POINTER_PULSE_FREQUENCY: number = 1
 
+/**
+ * @constant
+ * @type {Record<keyof PointerConfig, string>}
+ * @note Uniform related to each pointer setting
+ */
+const SETTING_UNIFORMS: Record<keyof PointerConfig, string> = {
+  strength: 'uPointerStrength',
+  minRad: 'uPointerMinRad',
+  maxRad: 'uPointerMaxRad',
+  pulseStrength: 'uPointerPulseStrength',
+  pulseFrequency: 'uPointerPulseFrequency',
+}
+
 export default class Runner {
   /**
    * @type {Model}
    */
-  readonly model: Model
+  model: Model
 
   /**
    * @type {Pointer}
    */
-  readonly pointer: Pointer
+  pointer: Pointer
+
+  /**
+   * @type {Model | null}
+   * @note Model that is being loaded to replace the current one
+   */
+  #nextModel: Model | null = null
+
+  /**
+   * @type {Pointer | null}
+   * @note Pointer that is being loaded to replace the current one
+   */
+  #nextPointer: Pointer | null = null
 
   /**
    * @type {RendererManager}
@@ -61,9 +89,15 @@ export default class Runner {
   readonly #rendererManager: RendererManager
 
   /**
-   * @type {DebugManager}
+   * @type {Overlay | null}
+   * @note It is created when debug is enabled for the first time
+   */
+  #overlay: Overlay | null = null
+
+  /**
+   * @type {Required<PointerConfig>}
    */
-  readonly #debugManager: DebugManager
+  readonly #pointerSettings: Required<PointerConfig>
 
   /**
    * Constructor
@@ -71,7 +105,6 @@ export default class Runner {
    * @param {Model}           model
    * @param {Pointer}         pointer
    * @param {RendererManager} rendererManager
-   * @param {DebugManager}    debugManager
    * @param {number}          pointerStrength
    * @param {number}          pointerMinRad
    * @param {number}          pointerMaxRad
@@ -82,7 +115,6 @@ export default class Runner {
     model: Model,
     pointer: Pointer,
     rendererManager: RendererManager,
-    debugManager: DebugManager,
     pointerStrength: number = DEFAULT_POINTER_STRENGTH,
     pointerMinRad: number = DEFAULT_POINTER_MIN_RAD,
     pointerMaxRad: number = DEFAULT_POINTER_MAX_RAD,
@@ -92,16 +124,232 @@ export default class Runner {
     this.model = model
     this.pointer = pointer
     this.#rendererManager = rendererManager
-    this.#debugManager = debugManager
+    this.#pointerSettings = {
+      strength: pointerStrength,
+      minRad: pointerMinRad,
+      maxRad: pointerMaxRad,
+      pulseStrength: pointerPulseStrength,
+      pulseFrequency: pointerPulseFrequency,
+    }
+  }
+
+  /**
+   * Load model and pointer
+   *
+   * @param   {(url: string, event: ProgressEvent) => void} onProgress
+   * @returns {Promise<void>}
+   * @note    It is resolved when the model points are added to the scene
+   *          and the pointer is ready to handle interactions
+   * @note    If an entity is replaced while it is loading
+   *          (i.e.: on breakpoint change), its result is ignored
+   *          (the replacement is the one on screen)
+   */
+  async load(
+    onProgress?: (url: string, event: ProgressEvent) => void,
+  ): Promise<void> {
+    const model = this.model
+    const pointer = this.pointer
+    await Promise.all([
+      pointer.load(onProgress).then(
+        () => {
+          if (this.pointer === pointer) {
+            this.#initPointer()
+          }
+        },
+        (error) => {
+          if (this.pointer === pointer) {
+            throw error
+          }
+        },
+      ),
+      model.load(onProgress).then(
+        () => {
+          if (this.model === model) {
+            this.#initModel()
+          }
+        },
+        (error) => {
+          if (this.model === model) {
+            throw error
+          }
+        },
+      ),
+    ])
+  }
+
+  /**
+   * Reset model point settings
+   *
+   * @param   {number | undefined}     size
+   * @param   {ModelSourcePointMotion} motion
+   * @returns {void}
+   * @note    Settings are also applied to the model that is being loaded
+   *          to replace the current one (if any), because it will be the
+   *          one on screen once it is loaded
+   */
+  resetModelSettings(
+    size: number | undefined,
+    motion: ModelSourcePointMotion,
+  ): void {
+    this.model.resetSettings(size, motion)
+    this.#nextModel?.resetSettings(size, motion)
+  }
+
+  /**
+   * Set model point ratio
+   *
+   * @param   {number} ratio
+   * @returns {void}
+   * @note    It is also applied to the model that is being loaded
+   */
+  setPointRatio(ratio: number): void {
+    this.model.setPointRatio(ratio)
+    this.#nextModel?.setPointRatio(ratio)
+  }
+
+  /**
+   * Replace model
+   *
+   * @param   {Model}                                        model
+   * @param   {(url: string, event: ProgressEvent) => void} onProgress
+   * @returns {Promise<boolean>}
+   * @note    The current model is kept on screen until the new one
+   *          is loaded, to avoid a blank frame between them
+   * @note    If another replacement is requested while the model is
+   *          being loaded, this one is discarded and `false` is returned
+   */
+  async replaceModel(
+    model: Model,
+    onProgress?: (url: string, event: ProgressEvent) => void,
+  ): Promise<boolean> {
+    this.#nextModel = model
+
+    try {
+      await model.load(onProgress)
+    } catch (error) {
+      model.dispose()
+      throw error
+    }
+
+    if (this.#nextModel !== model) {
+      model.dispose()
+      return false
+    }
+
+    this.#nextModel = null
+    if (this.model.points) {
+      this.#rendererManager.scene.remove(this.model.points)
+    }
+    this.model.dispose()
+
+    this.model = model
+    this.#initModel()
+
+    return true
+  }
+
+  /**
+   * Replace pointer
+   *
+   * @param   {Pointer}                                      pointer
+   * @param   {(url: string, event: ProgressEvent) => void} onProgress
+   * @returns {Promise<boolean>}
+   * @note    The current pointer is kept until the new one is loaded
+   * @note    If another replacement is requested while the pointer is
+   *          being loaded, this one is discarded and `false` is returned
+   */
+  async replacePointer(
+    pointer: Pointer,
+    onProgress?: (url: string, event: ProgressEvent) => void,
+  ): Promise<boolean> {
+    this.#nextPointer = pointer
+
+    try {
+      await pointer.load(onProgress)
+    } catch (error) {
+      pointer.dispose()
+      throw error
+    }
+
+    if (this.#nextPointer !== pointer) {
+      pointer.dispose()
+      return false
+    }
+
+    this.#nextPointer = null
+    if (this.pointer.mesh) {
+      this.#rendererManager.scene.remove(this.pointer.mesh)
+    }
+    this.pointer.dispose()
 
+    this.pointer = pointer
     this.#initPointer()
-    this.#initModel(
-      pointerStrength,
-      pointerMinRad,
-      pointerMaxRad,
-      pointerPulseStrength,
-      pointerPulseFrequency,
-    )
+
+    return true
+  }
+
+  /**
+   * Get pointer settings
+   *
+   * @returns {Required<PointerConfig>}
+   * @note    If the model shader is compiled, uniform values are returned,
+   *          because they can be changed from the debug panel
+   */
+  getPointerSettings(): Required<PointerConfig> {
+    const settings = {...this.#pointerSettings}
+    let key: keyof PointerConfig
+    for (key in SETTING_UNIFORMS) {
+      const uniform =
+        this.model.points?.material.uniforms[SETTING_UNIFORMS[key]]
+      if (uniform) {
+        settings[key] = uniform.value
+      }
+    }
+
+    return settings
+  }
+
+  /**
+   * Reset pointer settings
+   *
+   * @param   {PointerConfig} settings
+   * @returns {void}
+   * @note    Settings that are not given are reset to their default values
+   */
+  resetPointerSettings(settings: PointerConfig): void {
+    this.setPointerSettings({
+      strength: settings.strength ?? DEFAULT_POINTER_STRENGTH,
+      minRad: settings.minRad ?? DEFAULT_POINTER_MIN_RAD,
+      maxRad: settings.maxRad ?? DEFAULT_POINTER_MAX_RAD,
+      pulseStrength: settings.pulseStrength ?? DEFAULT_POINTER_PULSE_STRENGTH,
+      pulseFrequency:
+        settings.pulseFrequency ?? DEFAULT_POINTER_PULSE_FREQUENCY,
+    })
+  }
+
+  /**
+   * Set pointer settings
+   *
+   * @param   {PointerConfig} settings
+   * @returns {void}
+   * @note    Settings are kept, so they can be applied
+   *          when the model shader is compiled (if it is not compiled yet)
+   */
+  setPointerSettings(settings: PointerConfig): void {
+    let key: keyof PointerConfig
+    for (key in SETTING_UNIFORMS) {
+      const value = settings[key]
+      if (value === undefined) {
+        continue
+      }
+
+      this.#pointerSettings[key] = value
+      const uniform =
+        this.model.points?.material.uniforms[SETTING_UNIFORMS[key]]
+      if (uniform) {
+        uniform.value = value
+      }
+    }
   }
 
   /**
@@ -127,21 +375,50 @@ export default class Runner {
       } else {
         this.#disablePointer()
       }
+
+      this.#overlay?.update(
+        this.model,
+        this.pointer,
+        this.getPointerSettings(),
+        elapsedTime,
+      )
     }
   }
 
+  /**
+   * Show/hide debug overlays
+   *
+   * @param   {boolean} isEnabled
+   * @returns {void}
+   * @note    Selected overlays are kept, so they are shown again
+   *          when overlays are enabled
+   */
+  setOverlayEnabled(isEnabled: boolean): void {
+    this.#overlay?.setEnabled(isEnabled)
+  }
+
+  /**
+   * Reset simulation
+   *
+   * @returns {void}
+   */
+  reset(): void {
+    this.model.reset()
+  }
+
   /**
    * Enable debug mode
    *
+   * @param   {DebugManager} debugManager
    * @returns {void}
    */
-  debug(): void {
+  debug(debugManager: DebugManager): void {
     if (this.model.points) {
-      const pointerFolder = this.#debugManager.addFolder({
+      const pointerFolder = debugManager.addFolder({
         title: 'Pointer',
       })
 
-      this.#debugManager.addBindingWithOnChange(
+      debugManager.addBindingWithOnChange(
         this.model.points.material.uniforms.uPointerStrength,
         'value',
         'strength',
@@ -149,7 +426,7 @@ export default class Runner {
         pointerFolder,
       )
 
-      this.#debugManager.addBindingWithOnChange(
+      debugManager.addBindingWithOnChange(
         this.model.points.material.uniforms.uPointerMinRad,
         'value',
         'min-rad',
@@ -157,7 +434,7 @@ export default class Runner {
         pointerFolder,
       )
 
-      this.#debugManager.addBindingWithOnChange(
+      debugManager.addBindingWithOnChange(
         this.model.points.material.uniforms.uPointerMaxRad,
         'value',
         'max-rad',
@@ -165,7 +442,7 @@ export default class Runner {
         pointerFolder,
       )
 
-      this.#debugManager.addBindingWithOnChange(
+      debugManager.addBindingWithOnChange(
         this.model.points.material.uniforms.uPointerPulseStrength,
         'value',
         'pulse-strength',
@@ -173,7 +450,7 @@ export default class Runner {
         pointerFolder,
       )
 
-      this.#debugManager.addBindingWithOnChange(
+      debugManager.addBindingWithOnChange(
         this.model.points.material.uniforms.uPointerPulseFrequency,
         'value',
         'pulse-frequency',
@@ -182,7 +459,8 @@ export default class Runner {
       )
     }
 
-    this.model.debug()
+    this.model.debug(debugManager)
+    this.#debugOverlay(debugManager)
   }
 
   /**
@@ -191,8 +469,48 @@ export default class Runner {
    * @returns {void}
    */
   dispose(): void {
+    this.#overlay?.dispose()
+    this.#overlay = null
     this.pointer.dispose()
     this.model.dispose()
+
+    /**
+     * @note Replacements that are still being loaded
+     *       are disposed once they are loaded
+     */
+    this.#nextPointer = null
+    this.#nextModel = null
+  }
+
+  /**
+   * Add overlay debug folder
+   *
+   * @param   {DebugManager} debugManager
+   * @returns {void}
+   * @note    The overlay is kept between debug folder re-creations,
+   *          so selected overlays remain visible
+   */
+  #debugOverlay(debugManager: DebugManager): void {
+    if (!this.#overlay) {
+      this.#overlay = new Overlay(this.#rendererManager)
+    }
+    const overlay = this.#overlay
+
+    const overlayFolder = debugManager.addFolder({
+      title: 'Overlay',
+    })
+
+    const names: OverlayName[] = [
+      'pointer-mesh',
+      'pointer-hit',
+      'gpgpu-texture',
+      'flow-arrows',
+    ]
+    for (const name of names) {
+      debugManager
+        .addBinding(name, overlay.isVisible(name), {}, overlayFolder)
+        .on('change', (e) => overlay.setVisible(name, e.value))
+    }
   }
 
   /**
@@ -203,87 +521,52 @@ export default class Runner {
    *          (the same position used for the model)
    */
   #initPointer(): void {
-    this.pointer.load().then(() => {
-      if (this.pointer.mesh) {
-        this.pointer.mesh.position.set(0, 0, 0)
-        this.pointer.mesh.visible = false
-        this.#rendererManager.scene.add(this.pointer.mesh)
-      }
-    })
+    if (this.pointer.mesh) {
+      this.pointer.mesh.position.set(0, 0, 0)
+      this.pointer.mesh.visible = false
+      this.#rendererManager.scene.add(this.pointer.mesh)
+    }
   }
 
   /**
    * Init model
    *
-   * @param   {number} pointerStrength
-   * @param   {number} pointerMinRad
-   * @param   {number} pointerMaxRad
-   * @param   {number} pointerPulseStrength
-   * @param   {number} pointerPulseFrequency
    * @returns {void}
    * @note    Set model at the center of the scene
-   * @note    Add pointer effect to model
+   * @note    Add pointer effect to model.
+   *          The model is added to the scene before adding the pointer
+   *          handler, so its shader compilation can be forced
    */
-  #initModel(
-    pointerStrength: number,
-    pointerMinRad: number,
-    pointerMaxRad: number,
-    pointerPulseStrength: number,
-    pointerPulseFrequency: number,
-  ): void {
-    this.model.load().then(() => {
-      if (this.model.points) {
-        this.#addPointerHandlerToModel(
-          pointerStrength,
-          pointerMinRad,
-          pointerMaxRad,
-          pointerPulseStrength,
-          pointerPulseFrequency,
-        )
+  #initModel(): void {
+    if (this.model.points) {
+      this.model.points.position.set(0, 0, 0)
+      this.#rendererManager.scene.add(this.model.points)
 
-        this.model.points.position.set(0, 0, 0)
-        this.#rendererManager.scene.add(this.model.points)
-      }
-    })
+      this.#addPointerHandlerToModel()
+    }
   }
 
   /**
    * Add pointer handler to model
    *
-   * @param   {number} pointerStrength
-   * @param   {number} pointerMinRad
-   * @param   {number} pointerMaxRad
-   * @param   {number} pointerPulseStrength
-   * @param   {number} pointerPulseFrequency
    * @returns {void}
    * @note    Force shader compilation with `compile()`.
    *          If it is not forced the shader compilation, then
    *          uniforms will be undefined until first render of the scene
    * {@link   https://github.com/mrdoob/three.js/pull/10960}
    */
-  #addPointerHandlerToModel(
-    pointerStrength: number,
-    pointerMinRad: number,
-    pointerMaxRad: number,
-    pointerPulseStrength: number,
-    pointerPulseFrequency: number,
-  ): void {
+  #addPointerHandlerToModel(): void {
     if (this.model.points) {
       this.model.points.material.onBeforeCompile = (shader) => {
         if (this.model.points) {
           this.model.points.material.uniforms.uPointer = new THREE.Uniform(
             new THREE.Vector3(),
           )
-          this.model.points.material.uniforms.uPointerStrength =
-            new THREE.Uniform(pointerStrength)
-          this.model.points.material.uniforms.uPointerMinRad =
-            new THREE.Uniform(pointerMinRad)
-          this.model.points.material.uniforms.uPointerMaxRad =
-            new THREE.Uniform(pointerMaxRad)
-          this.model.points.material.uniforms.uPointerPulseStrength =
-            new THREE.Uniform(pointerPulseStrength)
-          this.model.points.material.uniforms.uPointerPulseFrequency =
-            new THREE.Uniform(pointerPulseFrequency)
+          let key: keyof PointerConfig
+          for (key in SETTING_UNIFORMS) {
+            this.model.points.material.uniforms[SETTING_UNIFORMS[key]] =
+              new THREE.Uniform(this.#pointerSettings[key])
+          }
           this.model.points.material.uniforms.uTime = new THREE.Uniform(0)
 
           shader.vertexShader = shader.vertexShader.replace(
@@ -7,6 +7,7 @@
  */
 import * as THREE from 'three'
 import ModelLoaderManager from '../../../services/model-loader-manager.js'
+import type {ModelInput, ModelLoadOptions} from '../../../types'
 
 export default abstract class AbstractEntity {
   /**
@@ -15,37 +16,117 @@ export default abstract class AbstractEntity {
   mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material> | null = null
 
   /**
-   * @type {string}
+   * @type {ModelInput}
+   * @note Model URL or in-memory model
    */
-  readonly #modelUrl: string
+  readonly modelSource: ModelInput
+
+  /**
+   * @type {ModelLoadOptions}
+   * @note Model format and names of the meshes that should be used
+   */
+  readonly loadOptions: ModelLoadOptions
+
+  /**
+   * @type {Promise<THREE.Mesh<THREE.BufferGeometry, THREE.Material>>}
+   * @note It is resolved with the loaded mesh, so other entities
+   *       can reuse it (i.e.: to generate the pointer raycast proxy)
+   */
+  readonly loadedMesh: Promise<THREE.Mesh<THREE.BufferGeometry, THREE.Material>>
 
   /**
    * @type {ModelLoaderManager}
    */
   #modelLoaderManager: ModelLoaderManager
 
+  /**
+   * @type {(mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material>) => void}
+   */
+  #resolveMesh: (mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material>) => void
+
+  /**
+   * @type {(error: unknown) => void}
+   */
+  #rejectMesh: (error: unknown) => void
+
+  /**
+   * @type {boolean}
+   */
+  #isDisposed: boolean = false
+
   /**
    * Constructor
    *
-   * @param {string}             modelUrl
+   * @param {ModelInput}         modelSource
    * @param {ModelLoaderManager} modelLoaderManager
+   * @param {ModelLoadOptions}   loadOptions
    */
   protected constructor(
-    modelUrl: string,
+    modelSource: ModelInput,
     modelLoaderManager: ModelLoaderManager,
+    loadOptions: ModelLoadOptions = {},
   ) {
-    this.#modelUrl = modelUrl
+    this.modelSource = modelSource
+    this.loadOptions = loadOptions
     this.#modelLoaderManager = modelLoaderManager
+
+    this.loadedMesh = new Promise((resolve, reject) => {
+      this.#resolveMesh = resolve
+      this.#rejectMesh = reject
+    })
+    /**
+     * @note Avoid unhandled rejections when nobody waits for the mesh.
+     *       Load errors are also thrown by the `load` method
+     */
+    this.loadedMesh.catch(() => {})
+  }
+
+  /**
+   * Check if the entity is disposed
+   *
+   * @returns {boolean}
+   * @note    An entity can be disposed while it is loading
+   *          (i.e.: when it is replaced), so its load should stop
+   *          and release what it loaded
+   */
+  get isDisposed(): boolean {
+    return this.#isDisposed
   }
 
   /**
    * Load entity/model
    *
+   * @param   {(url: string, event: ProgressEvent) => void} onProgress
    * @returns {Promise<void>}
+   * @note    Progress is only reported for model URLs,
+   *          because in-memory models are not downloaded
+   * @note    If the entity is disposed while it is loading,
+   *          the loaded mesh is still shared with other entities
+   *          (they can be alive), but it is not kept by this one
    */
-  async load(): Promise<void> {
-    this.mesh = await this.#modelLoaderManager.loadMeshFromModel(this.#modelUrl)
+  async load(
+    onProgress?: (url: string, event: ProgressEvent) => void,
+  ): Promise<void> {
+    const source = this.modelSource
+    try {
+      this.mesh = await this.#modelLoaderManager.loadMeshFromModel(
+        source,
+        typeof source === 'string' && onProgress
+          ? (e) => onProgress(source, e)
+          : undefined,
+        this.loadOptions,
+      )
+    } catch (error) {
+      this.#rejectMesh(error)
+      throw error
+    }
+
     this.mesh.geometry.center()
+    this.#resolveMesh(this.mesh)
+
+    if (this.#isDisposed) {
+      this.mesh = null
+    }
   }
 
   /**
@@ -54,6 +135,7 @@ export default abstract class AbstractEntity {
    * @returns {void}
    */
   dispose(): void {
+    this.#isDisposed = true
     this.mesh?.geometry.dispose()
     this.mesh?.material.dispose()
   }
@@ -0,0 +1,83 @@
+/**
+ * @description Model tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import * as THREE from 'three'
+import {describe, expect, it, vi} from 'vitest'
+import Model from './model.js'
+import RandomManager from '../../../services/random-manager.js'
+import type FlowFieldManager from './model/gpgpu/flow-field-manager.js'
+import type ModelLoaderManager from '../../../services/model-loader-manager.js'
+
+/**
+ * Create mesh
+ *
+ * @returns {THREE.Mesh}
+ * @note    Meshes are always loaded with vertex colors
+ *          (they are set by the mesh merger)
+ */
+const createMesh = (): THREE.Mesh => {
+  const geometry = new THREE.BoxGeometry()
+  const count = geometry.getAttribute('position').count
+  geometry.setAttribute(
+    'color',
+    new THREE.BufferAttribute(new Float32Array(count * 4).fill(1), 4),
+  )
+
+  return new THREE.Mesh(geometry, new THREE.MeshBasicMaterial())
+}
+
+/**
+ * Create model
+ *
+ * @returns {{model: Model; flowFieldManager: {init: () => void; dispose: () => void}; resolve: () => void}}
+ * @note    Loaded mesh is resolved by the test
+ */
+const createModel = (): {
+  model: Model
+  flowFieldManager: {init: () => void; dispose: () => void}
+  resolve: () => void
+} => {
+  let resolve: () => void = () => {}
+  const mesh = new Promise<THREE.Mesh>((res) => {
+    resolve = () => res(createMesh())
+  })
+  const flowFieldManager = {
+    init: vi.fn(),
+    dispose: vi.fn(),
+    texelUv: new Float32Array(0),
+  }
+  const model = new Model(
+    flowFieldManager as unknown as FlowFieldManager,
+    new RandomManager(1),
+    '/model.glb',
+    {loadMeshFromModel: () => mesh} as unknown as ModelLoaderManager,
+  )
+
+  return {model: model, flowFieldManager: flowFieldManager, resolve: resolve}
+}
+
+describe('Model', () => {
+  it('creates its points when it is loaded', async () => {
+    const {model, flowFieldManager, resolve} = createModel()
+    const load = model.load()
+    resolve()
+    await load
+
+    expect(flowFieldManager.init).toHaveBeenCalledOnce()
+    expect(model.points).not.toBeNull()
+  })
+
+  it('stops loading when it is disposed', async () => {
+    const {model, flowFieldManager, resolve} = createModel()
+    const load = model.load()
+    model.dispose()
+    resolve()
+    await load
+
+    expect(flowFieldManager.init).not.toHaveBeenCalled()
+    expect(model.points).toBeNull()
+    expect(model.mesh).toBeNull()
+    expect(await model.loadedMesh).toBeInstanceOf(THREE.Mesh)
+  })
+})
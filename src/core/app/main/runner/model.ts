@@ -5,12 +5,21 @@
  *              transformation of the model into vertices/points/pixels
  */
 import * as THREE from 'three'
+import {MeshSurfaceSampler} from 'three/addons/math/MeshSurfaceSampler.js'
 import ModelLoaderManager from '../../../services/model-loader-manager.js'
 import AbstractEntity from './abstract-entity.js'
 import FlowFieldManager from './model/gpgpu/flow-field-manager.js'
-import DebugManager from '../../../services/debug-manager.js'
+import type DebugManager from '../../../services/debug-manager.js'
+import RandomManager from '../../../services/random-manager.js'
+import TextureSampler from '../../../services/model-loader-manager/texture-sampler.js'
 import vertexShader from './model/shader/vertex.glsl'
 import fragmentShader from './model/shader/fragment.glsl'
+import type {
+  ModelInput,
+  ModelLoadOptions,
+  ModelSourcePointMotion,
+  ModelSourcePointSampling,
+} from '../../../types'
 
 /**
  * @constant
@@ -30,36 +39,64 @@ export default class Model extends AbstractEntity {
   readonly #flowFieldManager: FlowFieldManager | null = null
 
   /**
-   * @type {DebugManager}
+   * @type {RandomManager}
    */
-  readonly #debugManager: DebugManager
+  readonly #randomManager: RandomManager
 
   /**
    * @type {number}
    */
-  readonly #pointSize: number
+  #pointSize: number
+
+  /**
+   * @type {number}
+   * @note Ratio of points that are simulated and rendered
+   */
+  #pointRatio: number
+
+  /**
+   * @type {ModelSourcePointSampling}
+   */
+  readonly #sampling: ModelSourcePointSampling
+
+  /**
+   * @type {THREE.ColorRepresentation | undefined}
+   * @note If it is set, it overrides the model colors
+   */
+  readonly #pointColor: THREE.ColorRepresentation | undefined
 
   /**
    * Constructor
    *
-   * @param {FlowFieldManager}   flowFieldManager
-   * @param {DebugManager}       debugManager
-   * @param {string}             modelUrl
-   * @param {ModelLoaderManager} modelLoaderManager
-   * @param {number}             pointSize
+   * @param {FlowFieldManager}          flowFieldManager
+   * @param {RandomManager}             randomManager
+   * @param {ModelInput}                modelSource
+   * @param {ModelLoaderManager}        modelLoaderManager
+   * @param {number}                    pointSize
+   * @param {number}                    pointRatio
+   * @param {ModelLoadOptions}          loadOptions
+   * @param {ModelSourcePointSampling}  sampling
+   * @param {THREE.ColorRepresentation} pointColor
    */
   constructor(
     flowFieldManager: FlowFieldManager,
-    debugManager: DebugManager,
-    modelUrl: string,
+    randomManager: RandomManager,
+    modelSource: ModelInput,
     modelLoaderManager: ModelLoaderManager,
     pointSize: number = DEFAULT_POINT_SIZE,
+    pointRatio: number = 1,
+    loadOptions: ModelLoadOptions = {},
+    sampling: ModelSourcePointSampling = {},
+    pointColor?: THREE.ColorRepresentation,
   ) {
-    super(modelUrl, modelLoaderManager)
+    super(modelSource, modelLoaderManager, loadOptions)
 
     this.#flowFieldManager = flowFieldManager
-    this.#debugManager = debugManager
+    this.#randomManager = randomManager
     this.#pointSize = pointSize
+    this.#pointRatio = pointRatio
+    this.#sampling = sampling
+    this.#pointColor = pointColor
   }
 
   /**
@@ -80,17 +117,136 @@ export default class Model extends AbstractEntity {
     }
   }
 
+  /**
+   * Reset simulation
+   *
+   * @returns {void}
+   */
+  reset(): void {
+    if (this.points) {
+      this.#flowFieldManager?.reset()
+    }
+  }
+
+  /**
+   * Get point size
+   *
+   * @returns {number}
+   * @note    If the points are initialized, the uniform value is returned,
+   *          because it can be changed from the debug panel
+   */
+  getPointSize(): number {
+    return this.points?.material.uniforms.uPointSize.value ?? this.#pointSize
+  }
+
+  /**
+   * Set point size
+   *
+   * @param   {number} size
+   * @returns {void}
+   */
+  setPointSize(size: number): void {
+    this.#pointSize = size
+
+    if (this.points) {
+      this.points.material.uniforms.uPointSize.value = size
+    }
+  }
+
+  /**
+   * Get number of rendered points
+   *
+   * @returns {number}
+   */
+  getPointCount(): number {
+    return this.points ? this.points.geometry.drawRange.count : 0
+  }
+
+  /**
+   * Get GPGPU texture size
+   *
+   * @returns {number}
+   * @note    Points positions are computed in a square texture
+   *          of this size
+   */
+  getTextureSize(): number {
+    return this.points ? this.#flowFieldManager?.getTextureSize() ?? 0 : 0
+  }
+
+  /**
+   * Set point ratio
+   *
+   * @param   {number} ratio
+   * @returns {void}
+   * @note    Points are shuffled when the model is loaded,
+   *          so any ratio renders a uniform subset of the model
+   */
+  setPointRatio(ratio: number): void {
+    this.#pointRatio = Math.min(Math.max(0, ratio), 1)
+
+    if (this.points && this.#flowFieldManager) {
+      const uvPoint = this.points.geometry.getAttribute(
+        'aUvPoint',
+      ) as THREE.BufferAttribute
+      const count = this.#getPointCount(uvPoint.count)
+      this.#flowFieldManager.setCount(count)
+      uvPoint.set(this.#flowFieldManager.texelUv)
+      uvPoint.needsUpdate = true
+      this.points.geometry.setDrawRange(0, count)
+    }
+  }
+
+  /**
+   * Get point motion settings
+   *
+   * @returns {Required<ModelSourcePointMotion> | null}
+   */
+  getMotionSettings(): Required<ModelSourcePointMotion> | null {
+    return this.#flowFieldManager?.getSettings() ?? null
+  }
+
+  /**
+   * Set point motion settings
+   *
+   * @param   {ModelSourcePointMotion} settings
+   * @returns {void}
+   */
+  setMotionSettings(settings: ModelSourcePointMotion): void {
+    this.#flowFieldManager?.setSettings(settings)
+  }
+
+  /**
+   * Reset point settings
+   *
+   * @param   {number}                 size
+   * @param   {ModelSourcePointMotion} motion
+   * @returns {void}
+   * @note    Settings that are not given are reset to their default values
+   */
+  resetSettings(
+    size: number = DEFAULT_POINT_SIZE,
+    motion: ModelSourcePointMotion = {},
+  ): void {
+    this.setPointSize(size)
+    this.#flowFieldManager?.resetSettings(motion)
+  }
+
   /**
    * @inheritdoc
+   * @note If the model is disposed while it is loading,
+   *       its points and GPGPU resources are not created
    */
-  async load(): Promise<void> {
-    await super.load()
-    const position = this.mesh?.geometry.getAttribute(
-      'position',
-    ) as THREE.BufferAttribute
-    const color = this.mesh?.geometry.getAttribute(
-      'color',
-    ) as THREE.BufferAttribute
+  async load(
+    onProgress?: (url: string, event: ProgressEvent) => void,
+  ): Promise<void> {
+    await super.load(onProgress)
+    if (this.isDisposed) {
+      return
+    }
+
+    const [position, color] = this.#sampleAttributes(
+      this.mesh as THREE.Mesh<THREE.BufferGeometry, THREE.Material>,
+    )
     this.#initFlowFieldManager(position)
     this.#initPoints(position, color)
   }
@@ -98,15 +254,16 @@ export default class Model extends AbstractEntity {
   /**
    * Enable debug mode
    *
+   * @param   {DebugManager} debugManager
    * @returns {void}
    */
-  debug(): void {
+  debug(debugManager: DebugManager): void {
     if (this.points) {
-      const pointFolder = this.#debugManager.addFolder({
+      const pointFolder = debugManager.addFolder({
         title: 'Model Point',
       })
 
-      this.#debugManager.addBindingWithOnChange(
+      debugManager.addBindingWithOnChange(
         this.points.material.uniforms.uPointSize,
         'value',
         'size',
@@ -115,7 +272,7 @@ export default class Model extends AbstractEntity {
       )
     }
 
-    this.#flowFieldManager?.debug()
+    this.#flowFieldManager?.debug(debugManager)
   }
 
   /**
@@ -151,7 +308,7 @@ export default class Model extends AbstractEntity {
         },
       }),
     )
-    this.points.geometry.setDrawRange(0, position.count)
+    this.points.geometry.setDrawRange(0, this.#getPointCount(position.count))
 
     this.#initPointAttributes(position, color)
 
@@ -173,7 +330,7 @@ export default class Model extends AbstractEntity {
   ): void {
     const randomSizeArray = new Float32Array(position.count)
     for (let i = 0; i < position.count; i++) {
-      randomSizeArray[i] = Math.random()
+      randomSizeArray[i] = this.#randomManager.random()
     }
     this.points?.geometry.setAttribute(
       'aPointSize',
@@ -181,9 +338,11 @@ export default class Model extends AbstractEntity {
     )
 
     if (this.#flowFieldManager) {
+      const uvPointArray = new Float32Array(position.count * 2)
+      uvPointArray.set(this.#flowFieldManager.texelUv)
       this.points?.geometry.setAttribute(
         'aUvPoint',
-        new THREE.BufferAttribute(this.#flowFieldManager.texelUv, 2),
+        new THREE.BufferAttribute(uvPointArray, 2),
       )
     }
 
@@ -197,6 +356,212 @@ export default class Model extends AbstractEntity {
    * @returns {void}
    */
   #initFlowFieldManager(position: THREE.BufferAttribute): void {
-    this.#flowFieldManager?.init(position)
+    this.#flowFieldManager?.init(position, this.#getPointCount(position.count))
+  }
+
+  /**
+   * Sample point attributes from the model mesh
+   *
+   * @param   {THREE.Mesh<THREE.BufferGeometry, THREE.Material>} mesh
+   * @returns {THREE.BufferAttribute[]}
+   * @note    Point clouds do not have triangles,
+   *          so their vertices are always used
+   * @note    If a point color is set, it is used for every point
+   */
+  #sampleAttributes(
+    mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material>,
+  ): [THREE.BufferAttribute, THREE.BufferAttribute] {
+    const position = mesh.geometry.getAttribute(
+      'position',
+    ) as THREE.BufferAttribute
+    const count = this.#sampling.count ?? position.count
+    const textureSampler =
+      this.#pointColor === undefined ? this.#getTextureSampler(mesh) : null
+    const [sampledPosition, color] =
+      this.#sampling.mode === 'surface' && !mesh.geometry.userData.isPointCloud
+        ? this.#sampleSurface(mesh, count, textureSampler)
+        : this.#shuffleAttributes(
+            position,
+            this.#getVertexColor(mesh, textureSampler),
+            Math.min(count, position.count),
+          )
+
+    if (this.#pointColor !== undefined) {
+      const pointColor = new THREE.Color(this.#pointColor)
+      for (let i = 0; i < color.count; i++) {
+        color.setXYZW(i, pointColor.r, pointColor.g, pointColor.b, 1)
+      }
+    }
+
+    return [sampledPosition, color]
+  }
+
+  /**
+   * Get the sampler of the material texture
+   *
+   * @param   {THREE.Mesh<THREE.BufferGeometry, THREE.Material>} mesh
+   * @returns {TextureSampler | null}
+   * @note    Only the texture of the mesh material is sampled here.
+   *          Textures of other materials (i.e.: multi-material models)
+   *          are baked into the vertex colors by the model loader
+   */
+  #getTextureSampler(
+    mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material>,
+  ): TextureSampler | null {
+    const map = (mesh.material as THREE.MeshBasicMaterial).map
+    return map && mesh.geometry.hasAttribute('uv')
+      ? TextureSampler.create(map)
+      : null
+  }
+
+  /**
+   * Get vertex colors
+   *
+   * @param   {THREE.Mesh<THREE.BufferGeometry, THREE.Material>} mesh
+   * @param   {TextureSampler | null}                            textureSampler
+   * @returns {THREE.BufferAttribute}
+   * @note    If there is a texture sampler, vertex colors are multiplied
+   *          by the texture color at the vertex UV
+   */
+  #getVertexColor(
+    mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material>,
+    textureSampler: TextureSampler | null,
+  ): THREE.BufferAttribute {
+    const color = mesh.geometry.getAttribute('color') as THREE.BufferAttribute
+    if (!textureSampler) {
+      return color
+    }
+
+    const uv = mesh.geometry.getAttribute('uv') as THREE.BufferAttribute
+    const texturedColor = color.clone()
+    const vertexUv = new THREE.Vector2()
+    const textureColor = new THREE.Color()
+    for (let i = 0; i < color.count; i++) {
+      textureSampler.sample(vertexUv.fromBufferAttribute(uv, i), textureColor)
+      texturedColor.setXYZ(
+        i,
+        color.getX(i) * textureColor.r,
+        color.getY(i) * textureColor.g,
+        color.getZ(i) * textureColor.b,
+      )
+    }
+
+    return texturedColor
+  }
+
+  /**
+   * Sample points across the model surface
+   *
+   * @param   {THREE.Mesh<THREE.BufferGeometry, THREE.Material>} mesh
+   * @param   {number}                                           count
+   * @param   {TextureSampler | null}                            textureSampler
+   * @returns {THREE.BufferAttribute[]}
+   * @note    Triangles are chosen weighted by their area,
+   *          so points are evenly distributed across the surface.
+   *          Samples are independent, so the first points of the
+   *          attributes are already a uniform subset of the model
+   * @note    Sampler random generator is not included in
+   *          the Three.js type definitions, so it is typed here
+   * @note    Colors are interpolated from the vertex colors.
+   *          If there is a texture sampler, the texture color
+   *          at the interpolated UV is also applied
+   */
+  #sampleSurface(
+    mesh: THREE.Mesh<THREE.BufferGeometry, THREE.Material>,
+    count: number,
+    textureSampler: TextureSampler | null,
+  ): [THREE.BufferAttribute, THREE.BufferAttribute] {
+    const sampler = new MeshSurfaceSampler(mesh) as MeshSurfaceSampler & {
+      setRandomGenerator: (random: () => number) => MeshSurfaceSampler
+    }
+    sampler.setRandomGenerator(() => this.#randomManager.random()).build()
+
+    const positionArray = new Float32Array(count * 3)
+    const colorArray = new Float32Array(count * 4)
+    const samplePosition = new THREE.Vector3()
+    const sampleColor = new THREE.Color()
+    const sampleUv = new THREE.Vector2()
+    const textureColor = new THREE.Color()
+    for (let i = 0; i < count; i++) {
+      sampler.sample(samplePosition, undefined, sampleColor, sampleUv)
+      if (textureSampler) {
+        sampleColor.multiply(textureSampler.sample(sampleUv, textureColor))
+      }
+
+      samplePosition.toArray(positionArray, i * 3)
+      sampleColor.toArray(colorArray, i * 4)
+      colorArray[i * 4 + 3] = 1
+    }
+
+    return [
+      new THREE.BufferAttribute(positionArray, 3),
+      new THREE.BufferAttribute(colorArray, 4),
+    ]
+  }
+
+  /**
+   * Shuffle attributes
+   *
+   * @param   {THREE.BufferAttribute}   position
+   * @param   {THREE.BufferAttribute}   color
+   * @param   {number}                  count
+   * @returns {THREE.BufferAttribute[]}
+   * @note    Vertices are shuffled (keeping the relation between
+   *          their position and color), so the first points of the
+   *          attributes are a uniform subset of the model.
+   *          It is used to render less points without losing its shape.
+   *          Only the first `count` vertices are kept
+   * {@link   https://en.wikipedia.org/wiki/Fisher%E2%80%93Yates_shuffle}
+   */
+  #shuffleAttributes(
+    position: THREE.BufferAttribute,
+    color: THREE.BufferAttribute,
+    count: number = position.count,
+  ): [THREE.BufferAttribute, THREE.BufferAttribute] {
+    const order = new Uint32Array(position.count)
+    for (let i = 0; i < order.length; i++) {
+      order[i] = i
+    }
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(this.#randomManager.random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+
+    return [
+      this.#reorderAttribute(position, order.subarray(0, count)),
+      this.#reorderAttribute(color, order.subarray(0, count)),
+    ]
+  }
+
+  /**
+   * Reorder attribute
+   *
+   * @param   {THREE.BufferAttribute} attribute
+   * @param   {Uint32Array}           order
+   * @returns {THREE.BufferAttribute}
+   */
+  #reorderAttribute(
+    attribute: THREE.BufferAttribute,
+    order: Uint32Array,
+  ): THREE.BufferAttribute {
+    const itemSize = attribute.itemSize
+    const array = new Float32Array(order.length * itemSize)
+    for (let i = 0; i < order.length; i++) {
+      for (let j = 0; j < itemSize; j++) {
+        array[i * itemSize + j] = attribute.getComponent(order[i], j)
+      }
+    }
+
+    return new THREE.BufferAttribute(array, itemSize)
+  }
+
+  /**
+   * Get number of points to render
+   *
+   * @param   {number} total
+   * @returns {number}
+   */
+  #getPointCount(total: number): number {
+    return Math.max(1, Math.round(total * this.#pointRatio))
   }
 }
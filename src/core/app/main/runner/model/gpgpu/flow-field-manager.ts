@@ -8,8 +8,11 @@ import * as THREE from 'three'
 import {GPUComputationRenderer} from 'three/addons/misc/GPUComputationRenderer.js'
 import type {Variable} from 'three/addons/misc/GPUComputationRenderer.js'
 import GpGpuManager from '../../../../../services/gpgpu-manager.js'
-import DebugManager from '../../../../../services/debug-manager.js'
+import type DebugManager from '../../../../../services/debug-manager.js'
+import RandomManager from '../../../../../services/random-manager.js'
 import fragmentShader from './shader/fragment.glsl'
+import copyFragmentShader from './shader/copy.glsl'
+import type {ModelSourcePointMotion} from '../../../../../types'
 
 /**
  * @constant
@@ -35,6 +38,18 @@ const DEFAULT_RATIO: number = 0.25
  */
 const DEFAULT_POINT_LIFE_DECAY: number = 0.01
 
+/**
+ * @constant
+ * @type {Record<keyof ModelSourcePointMotion, string>}
+ * @note Uniform related to each motion setting
+ */
+const SETTING_UNIFORMS: Record<keyof ModelSourcePointMotion, string> = {
+  frequency: 'uFlowFieldFrequency',
+  strength: 'uFlowFieldStrength',
+  ratio: 'uFlowFieldRatio',
+  lifeDecay: 'uFlowFieldPointLifeDecay',
+}
+
 export default class FlowFieldManager {
   /**
    * @type {Float32Array}
@@ -64,54 +79,129 @@ export default class FlowFieldManager {
   #gpGpuManager: GpGpuManager
 
   /**
-   * @type {DebugManager}
+   * @type {RandomManager}
    */
-  readonly #debugManager: DebugManager
+  readonly #randomManager: RandomManager
 
   /**
-   * @type {number}
+   * @type {Required<ModelSourcePointMotion>}
    */
-  readonly #frequency: number
+  readonly #settings: Required<ModelSourcePointMotion>
 
   /**
-   * @type {number}
+   * @type {THREE.BufferAttribute}
+   * @note Model position attribute.
+   *       It is kept to be able to re-create the flow field
+   *       with a different number of points
    */
-  readonly #strength: number
+  #position: THREE.BufferAttribute
 
   /**
    * @type {number}
+   * @note Number of points that are simulated
    */
-  readonly #ratio: number
+  #count: number = 0
 
   /**
-   * @type {number}
+   * @type {Float32Array}
+   * @note Initial life of each point.
+   *       It is generated once, so the points keep their life
+   *       when the flow field is re-created
    */
-  readonly #pointLifeDecay: number
+  #life: Float32Array
+
+  /**
+   * @type {{[uniform: string]: THREE.IUniform}}
+   * @note Uniforms are kept between flow field re-creations,
+   *       so references to them remain valid (i.e.: debug bindings)
+   */
+  #uniforms: {[uniform: string]: THREE.IUniform} = {}
 
   /**
    * Constructor
    *
-   * @param {GpGpuManager} gpGpuManager
-   * @param {DebugManager} debugManager
-   * @param {number}       frequency
-   * @param {number}       strength
-   * @param {number}       ratio
-   * @param {number}       pointLifeDecay
+   * @param {GpGpuManager}  gpGpuManager
+   * @param {RandomManager} randomManager
+   * @param {number}        frequency
+   * @param {number}        strength
+   * @param {number}        ratio
+   * @param {number}        pointLifeDecay
    */
   constructor(
     gpGpuManager: GpGpuManager,
-    debugManager: DebugManager,
+    randomManager: RandomManager,
     frequency: number = DEFAULT_FREQUENCY,
     strength: number = DEFAULT_STRENGTH,
     ratio: number = DEFAULT_RATIO,
     pointLifeDecay: number = DEFAULT_POINT_LIFE_DECAY,
   ) {
     this.#gpGpuManager = gpGpuManager
-    this.#debugManager = debugManager
-    this.#frequency = frequency
-    this.#strength = strength
-    this.#ratio = ratio
-    this.#pointLifeDecay = pointLifeDecay
+    this.#randomManager = randomManager
+    this.#settings = {
+      frequency: frequency,
+      strength: strength,
+      ratio: ratio,
+      lifeDecay: pointLifeDecay,
+    }
+  }
+
+  /**
+   * Get motion settings
+   *
+   * @returns {Required<ModelSourcePointMotion>}
+   * @note    If the flow field is initialized, uniform values are returned,
+   *          because they can be changed from the debug panel
+   */
+  getSettings(): Required<ModelSourcePointMotion> {
+    const settings = {...this.#settings}
+    if (this.#gpGpuVar) {
+      let key: keyof ModelSourcePointMotion
+      for (key in SETTING_UNIFORMS) {
+        settings[key] =
+          this.#gpGpuVar.material.uniforms[SETTING_UNIFORMS[key]].value
+      }
+    }
+
+    return settings
+  }
+
+  /**
+   * Set motion settings
+   *
+   * @param   {ModelSourcePointMotion} settings
+   * @returns {void}
+   * @note    Settings are kept, so they can be applied
+   *          when the flow field is initialized (if it is not initialized yet)
+   */
+  setSettings(settings: ModelSourcePointMotion): void {
+    let key: keyof ModelSourcePointMotion
+    for (key in SETTING_UNIFORMS) {
+      const value = settings[key]
+      if (value === undefined) {
+        continue
+      }
+
+      this.#settings[key] = value
+      if (this.#gpGpuVar) {
+        this.#gpGpuVar.material.uniforms[SETTING_UNIFORMS[key]].value = value
+      }
+    }
+  }
+
+  /**
+   * Reset motion settings
+   *
+   * @param   {ModelSourcePointMotion} settings
+   * @returns {void}
+   * @note    Settings that are not given are reset to their default values
+   */
+  resetSettings(settings: ModelSourcePointMotion): void {
+    this.setSettings({
+      frequency: settings.frequency ?? DEFAULT_FREQUENCY,
+      strength: settings.strength ?? DEFAULT_STRENGTH,
+      ratio: settings.ratio ?? DEFAULT_RATIO,
+      lifeDecay: settings.lifeDecay ?? DEFAULT_POINT_LIFE_DECAY,
+    })
   }
 
   /**
@@ -136,17 +226,31 @@ export default class FlowFieldManager {
     this.#gpGpu.compute()
   }
 
+  /**
+   * Reset simulation
+   *
+   * @returns {void}
+   * @note    Points are moved back to their initial position and life
+   */
+  reset(): void {
+    const baseTexture = this.#gpGpuVar.material.uniforms.uBaseDataTexture.value
+    for (const renderTarget of this.#gpGpuVar.renderTargets) {
+      this.#gpGpu.renderTexture(baseTexture, renderTarget)
+    }
+  }
+
   /**
    * Enable debug mode
    *
+   * @param   {DebugManager} debugManager
    * @returns {void}
    */
-  debug(): void {
-    const pointMotionFolder = this.#debugManager.addFolder({
+  debug(debugManager: DebugManager): void {
+    const pointMotionFolder = debugManager.addFolder({
       title: 'Model Point Motion',
     })
 
-    this.#debugManager.addBindingWithOnChange(
+    debugManager.addBindingWithOnChange(
       this.#gpGpuVar.material.uniforms.uFlowFieldFrequency,
       'value',
       'frequency',
@@ -154,7 +258,7 @@ export default class FlowFieldManager {
       pointMotionFolder,
     )
 
-    this.#debugManager.addBindingWithOnChange(
+    debugManager.addBindingWithOnChange(
       this.#gpGpuVar.material.uniforms.uFlowFieldStrength,
       'value',
       'strength',
@@ -162,7 +266,7 @@ export default class FlowFieldManager {
       pointMotionFolder,
     )
 
-    this.#debugManager.addBindingWithOnChange(
+    debugManager.addBindingWithOnChange(
       this.#gpGpuVar.material.uniforms.uFlowFieldRatio,
       'value',
       'ratio',
@@ -170,7 +274,7 @@ export default class FlowFieldManager {
       pointMotionFolder,
     )
 
-    this.#debugManager.addBindingWithOnChange(
+    debugManager.addBindingWithOnChange(
       this.#gpGpuVar.material.uniforms.uFlowFieldPointLifeDecay,
       'value',
       'point-life-decay',
@@ -192,16 +296,85 @@ export default class FlowFieldManager {
    * Init flow field from the model position attribute
    *
    * @param   {THREE.BufferAttribute} position
+   * @param   {number}                count
+   * @returns {void}
+   * @note    Only the first `count` vertices are simulated
+   */
+  init(position: THREE.BufferAttribute, count: number = position.count): void {
+    this.#position = position
+    this.#life = new Float32Array(position.count)
+    for (let i = 0; i < position.count; i++) {
+      this.#life[i] = this.#randomManager.random()
+    }
+
+    this.#uniforms.uTime = new THREE.Uniform(0)
+    this.#uniforms.uDeltaTime = new THREE.Uniform(0)
+    let key: keyof ModelSourcePointMotion
+    for (key in SETTING_UNIFORMS) {
+      this.#uniforms[SETTING_UNIFORMS[key]] = new THREE.Uniform(
+        this.#settings[key],
+      )
+    }
+
+    this.#create(count)
+  }
+
+  /**
+   * Get the number of simulated points
+   *
+   * @returns {number}
+   */
+  getCount(): number {
+    return this.#count
+  }
+
+  /**
+   * Get GPGPU texture size
+   *
+   * @returns {number}
+   */
+  getTextureSize(): number {
+    return this.#gpGpuManager.getTextureSize(this.#count)
+  }
+
+  /**
+   * Set the number of simulated points
+   *
+   * @param   {number} count
    * @returns {void}
+   * @note    GPGPU is re-created with a texture that fits
+   *          the given number of points, so less texels are computed
+   * @note    Current state of the points is copied to the new GPGPU,
+   *          so they do not jump back to their initial position
    */
-  init(position: THREE.BufferAttribute): void {
-    const vertices = position.count
-    const size = Math.ceil(Math.sqrt(vertices))
-    this.texelData = new Float32Array(vertices * 4)
-    this.texelUv = new Float32Array(vertices * 2)
-
-    for (let i = 0; i < vertices; i++) {
-      this.#generateTexelDataFromVertex(i, position)
+  setCount(count: number): void {
+    count = Math.min(Math.max(1, count), this.#position.count)
+    if (count === this.#count) {
+      return
+    }
+
+    const previousGpGpu = this.#gpGpu
+    const previousTexture = this.getCurrentRenderTarget().texture
+    const previousCount = this.#count
+    this.#create(count)
+    this.#copyState(previousTexture, previousCount)
+    previousGpGpu.dispose()
+  }
+
+  /**
+   * Create flow field
+   *
+   * @param   {number} count
+   * @returns {void}
+   */
+  #create(count: number): void {
+    const size = this.#gpGpuManager.getTextureSize(count)
+    this.#count = count
+    this.texelData = new Float32Array(count * 4)
+    this.texelUv = new Float32Array(count * 2)
+
+    for (let i = 0; i < count; i++) {
+      this.#generateTexelDataFromVertex(i, this.#position)
       this.#generateTexelUvFromVertex(i, size)
     }
 
@@ -210,19 +383,31 @@ export default class FlowFieldManager {
       fragmentShader,
     )
 
-    this.#gpGpuVar.material.uniforms.uTime = new THREE.Uniform(0)
-    this.#gpGpuVar.material.uniforms.uDeltaTime = new THREE.Uniform(0)
-    this.#gpGpuVar.material.uniforms.uFlowFieldFrequency = new THREE.Uniform(
-      this.#frequency,
-    )
-    this.#gpGpuVar.material.uniforms.uFlowFieldStrength = new THREE.Uniform(
-      this.#strength,
-    )
-    this.#gpGpuVar.material.uniforms.uFlowFieldRatio = new THREE.Uniform(
-      this.#ratio,
-    )
-    this.#gpGpuVar.material.uniforms.uFlowFieldPointLifeDecay =
-      new THREE.Uniform(this.#pointLifeDecay)
+    Object.assign(this.#gpGpuVar.material.uniforms, this.#uniforms)
+  }
+
+  /**
+   * Copy the state of the points from a previous GPGPU texture
+   *
+   * @param   {THREE.Texture} previousTexture
+   * @param   {number}        previousCount
+   * @returns {void}
+   * @note    Points that were not simulated in the previous texture
+   *          start from their initial position and life
+   */
+  #copyState(previousTexture: THREE.Texture, previousCount: number): void {
+    const material = this.#gpGpu.createShaderMaterial(copyFragmentShader, {
+      uPreviousDataTexture: new THREE.Uniform(previousTexture),
+      uBaseDataTexture: this.#gpGpuVar.material.uniforms.uBaseDataTexture,
+      uPreviousSize: new THREE.Uniform(
+        this.#gpGpuManager.getTextureSize(previousCount),
+      ),
+      uPreviousCount: new THREE.Uniform(previousCount),
+    })
+    for (const renderTarget of this.#gpGpuVar.renderTargets) {
+      this.#gpGpu.doRenderTarget(material, renderTarget)
+    }
+    material.dispose()
   }
 
   /**
@@ -242,7 +427,7 @@ export default class FlowFieldManager {
     this.texelData[i4 + 0] = position.array[i3 + 0]
     this.texelData[i4 + 1] = position.array[i3 + 1]
     this.texelData[i4 + 2] = position.array[i3 + 2]
-    this.texelData[i4 + 3] = Math.random()
+    this.texelData[i4 + 3] = this.#life[i]
   }
 
   /**
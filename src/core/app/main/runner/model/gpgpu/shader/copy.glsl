@@ -0,0 +1,29 @@
+/**
+ * @description GPGPU copy fragment shader
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        It copies the state of the points from a GPGPU texture
+ *              of another size. Texels are indexed row by row,
+ *              so every point is read from its texel in the previous
+ *              texture. Points that were not simulated in the previous
+ *              texture start from their base data
+ */
+uniform sampler2D uPreviousDataTexture;
+uniform sampler2D uBaseDataTexture;
+uniform float     uPreviousSize;
+uniform float     uPreviousCount;
+
+void main() {
+    vec2  uv    = gl_FragCoord.xy / resolution.xy;
+    vec2  texel = floor(gl_FragCoord.xy);
+    float index = texel.y * resolution.x + texel.x;
+
+    if (index < uPreviousCount) {
+        float row         = floor((index + 0.5) / uPreviousSize);
+        float column      = index - row * uPreviousSize;
+        vec2  previousUv  = (vec2(column, row) + 0.5) / uPreviousSize;
+        gl_FragColor      = texture(uPreviousDataTexture, previousUv);
+    }
+    else {
+        gl_FragColor = texture(uBaseDataTexture, uv);
+    }
+}
@@ -0,0 +1,546 @@
+/**
+ * @description Overlay
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        This class handles the debug overlays, that help to see
+ *              what is happening behind the effect:
+ *              - `pointer-mesh`: wireframe of the pointer mesh
+ *                (the low poly model used by the raycaster)
+ *              - `pointer-hit`: marker at the pointer intersection,
+ *                with the spheres of the pointer min/max radius
+ *              - `gpgpu-texture`: 2D preview of the current GPGPU
+ *                render target (point positions and life)
+ *              - `flow-arrows`: flow field direction of a subset of points
+ */
+import * as THREE from 'three'
+import RendererManager from '../../../services/renderer-manager.js'
+import Model from './model.js'
+import Pointer from './pointer.js'
+import textureVertexShader from './overlay/shader/texture_vertex.glsl'
+import textureFragmentShader from './overlay/shader/texture_fragment.glsl'
+import arrowVertexShader from './overlay/shader/arrow_vertex.glsl'
+import arrowFragmentShader from './overlay/shader/arrow_fragment.glsl'
+import type {PointerConfig} from '../../../types'
+
+/**
+ * @constant
+ * @type {number}
+ */
+const OVERLAY_COLOR: number = 0x00ffff
+
+/**
+ * @constant
+ * @type {number}
+ * @note Max number of flow arrows.
+ *       Arrows are drawn for an evenly distributed subset of points
+ */
+const MAX_ARROWS: number = 2048
+
+/**
+ * @constant
+ * @type {number}
+ * @note Size of the overlays (hit marker and flow arrows),
+ *       relative to the model radius
+ */
+const RELATIVE_SIZE: number = 0.03
+
+/**
+ * @constant
+ * @type {number}
+ * @note Height of the texture preview in clip space
+ *       (where the canvas height is `2`)
+ */
+const TEXTURE_PREVIEW_HEIGHT: number = 0.5
+
+/**
+ * @note Available overlays
+ */
+export type OverlayName =
+  | 'pointer-mesh'
+  | 'pointer-hit'
+  | 'gpgpu-texture'
+  | 'flow-arrows'
+
+export default class Overlay {
+  /**
+   * @type {Record<OverlayName, boolean>}
+   */
+  readonly #isVisible: Record<OverlayName, boolean> = {
+    'pointer-mesh': false,
+    'pointer-hit': false,
+    'gpgpu-texture': false,
+    'flow-arrows': false,
+  }
+
+  /**
+   * @type {boolean}
+   * @note Flag that determines if overlays can be shown.
+   *       It is used to hide them when debug is disabled,
+   *       without losing which ones were selected
+   */
+  #isEnabled: boolean = true
+
+  /**
+   * @type {RendererManager}
+   */
+  readonly #rendererManager: RendererManager
+
+  /**
+   * @type {THREE.Mesh<THREE.BufferGeometry, THREE.MeshBasicMaterial> | null}
+   * @note Its geometry is the pointer mesh geometry,
+   *       so it is not disposed with the overlay
+   */
+  #pointerMesh: THREE.Mesh<
+    THREE.BufferGeometry,
+    THREE.MeshBasicMaterial
+  > | null = null
+
+  /**
+   * @type {THREE.Group}
+   */
+  #pointerHit: THREE.Group
+
+  /**
+   * @type {THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>}
+   */
+  #pointerHitMarker: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>
+
+  /**
+   * @type {THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>}
+   */
+  #pointerMinRad: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>
+
+  /**
+   * @type {THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>}
+   */
+  #pointerMaxRad: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>
+
+  /**
+   * @type {THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>}
+   */
+  #texturePreview: THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>
+
+  /**
+   * @type {THREE.LineSegments<THREE.BufferGeometry, THREE.ShaderMaterial> | null}
+   */
+  #flowArrows: THREE.LineSegments<
+    THREE.BufferGeometry,
+    THREE.ShaderMaterial
+  > | null = null
+
+  /**
+   * @type {THREE.BufferAttribute | null}
+   * @note Point UV attribute used to create the flow arrows.
+   *       Arrows are re-created when it changes
+   *       (i.e.: the model is replaced or its point count changes)
+   */
+  #flowArrowsSource: THREE.BufferAttribute | null = null
+
+  /**
+   * @type {number}
+   */
+  #flowArrowsCount: number = 0
+
+  /**
+   * Constructor
+   *
+   * @param {RendererManager} rendererManager
+   */
+  constructor(rendererManager: RendererManager) {
+    this.#rendererManager = rendererManager
+
+    this.#initPointerHit()
+    this.#initTexturePreview()
+  }
+
+  /**
+   * Check if an overlay is visible
+   *
+   * @param   {OverlayName} name
+   * @returns {boolean}
+   */
+  isVisible(name: OverlayName): boolean {
+    return this.#isVisible[name]
+  }
+
+  /**
+   * Show/hide an overlay
+   *
+   * @param   {OverlayName} name
+   * @param   {boolean}     isVisible
+   * @returns {void}
+   */
+  setVisible(name: OverlayName, isVisible: boolean): void {
+    this.#isVisible[name] = isVisible
+  }
+
+  /**
+   * Enable/disable overlays
+   *
+   * @param   {boolean} isEnabled
+   * @returns {void}
+   */
+  setEnabled(isEnabled: boolean): void {
+    this.#isEnabled = isEnabled
+  }
+
+  /**
+   * Update
+   *
+   * @param   {Model}                   model
+   * @param   {Pointer}                 pointer
+   * @param   {Required<PointerConfig>} pointerSettings
+   * @param   {number}                  elapsedTime
+   * @returns {void}
+   * @note    Overlays are updated from the current model and pointer,
+   *          so they follow entity replacements
+   */
+  update(
+    model: Model,
+    pointer: Pointer,
+    pointerSettings: Required<PointerConfig>,
+    elapsedTime: number,
+  ): void {
+    const radius = this.#getRadius(pointer)
+    const texture: THREE.Texture | null =
+      model.points?.material.uniforms.uPointPositionTexture.value ?? null
+
+    this.#updatePointerMesh(pointer)
+    this.#updatePointerHit(pointer, pointerSettings, radius)
+    this.#updateTexturePreview(texture, radius)
+    this.#updateFlowArrows(model, texture, radius, elapsedTime)
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#disposePointerMesh()
+    this.#disposeFlowArrows()
+
+    this.#rendererManager.scene.remove(this.#pointerHit)
+    this.#pointerHitMarker.geometry.dispose()
+    this.#pointerHitMarker.material.dispose()
+    this.#pointerMinRad.geometry.dispose()
+    this.#pointerMinRad.material.dispose()
+    this.#pointerMaxRad.material.dispose()
+
+    this.#rendererManager.scene.remove(this.#texturePreview)
+    this.#texturePreview.geometry.dispose()
+    this.#texturePreview.material.dispose()
+  }
+
+  /**
+   * Update pointer mesh overlay
+   *
+   * @param   {Pointer} pointer
+   * @returns {void}
+   */
+  #updatePointerMesh(pointer: Pointer): void {
+    if (!this.#canShow('pointer-mesh') || !pointer.mesh) {
+      if (this.#pointerMesh) {
+        this.#pointerMesh.visible = false
+      }
+      return
+    }
+
+    if (this.#pointerMesh?.geometry !== pointer.mesh.geometry) {
+      this.#disposePointerMesh()
+      this.#pointerMesh = new THREE.Mesh(
+        pointer.mesh.geometry,
+        new THREE.MeshBasicMaterial({
+          color: OVERLAY_COLOR,
+          wireframe: true,
+          transparent: true,
+          opacity: 0.3,
+        }),
+      )
+      this.#rendererManager.scene.add(this.#pointerMesh)
+    }
+
+    this.#pointerMesh.position.copy(pointer.mesh.position)
+    this.#pointerMesh.visible = true
+  }
+
+  /**
+   * Update pointer hit overlay
+   *
+   * @param   {Pointer}                 pointer
+   * @param   {Required<PointerConfig>} pointerSettings
+   * @param   {number}                  radius
+   * @returns {void}
+   */
+  #updatePointerHit(
+    pointer: Pointer,
+    pointerSettings: Required<PointerConfig>,
+    radius: number,
+  ): void {
+    const intersection = pointer.intersections[0]
+    this.#pointerHit.visible = this.#canShow('pointer-hit') && !!intersection
+    if (!this.#pointerHit.visible) {
+      return
+    }
+
+    this.#pointerHit.position.copy(intersection.point)
+    this.#pointerHitMarker.scale.setScalar(radius * RELATIVE_SIZE)
+    this.#pointerMinRad.scale.setScalar(pointerSettings.minRad)
+    this.#pointerMaxRad.scale.setScalar(pointerSettings.maxRad)
+  }
+
+  /**
+   * Update texture preview overlay
+   *
+   * @param   {THREE.Texture | null} texture
+   * @param   {number}               radius
+   * @returns {void}
+   */
+  #updateTexturePreview(texture: THREE.Texture | null, radius: number): void {
+    this.#texturePreview.visible =
+      this.#canShow('gpgpu-texture') && texture !== null
+    if (!this.#texturePreview.visible) {
+      return
+    }
+
+    const uniforms = this.#texturePreview.material.uniforms
+    uniforms.uTexture.value = texture
+    uniforms.uRange.value = radius
+    uniforms.uAspect.value = this.#rendererManager.camera.aspect
+  }
+
+  /**
+   * Update flow arrows overlay
+   *
+   * @param   {Model}                model
+   * @param   {THREE.Texture | null} texture
+   * @param   {number}               radius
+   * @param   {number}               elapsedTime
+   * @returns {void}
+   */
+  #updateFlowArrows(
+    model: Model,
+    texture: THREE.Texture | null,
+    radius: number,
+    elapsedTime: number,
+  ): void {
+    const uvPoint = model.points?.geometry.getAttribute('aUvPoint') as
+      | THREE.BufferAttribute
+      | undefined
+    if (!this.#canShow('flow-arrows') || !texture || !uvPoint) {
+      if (this.#flowArrows) {
+        this.#flowArrows.visible = false
+      }
+      return
+    }
+
+    const count = model.getPointCount()
+    if (
+      !this.#flowArrows ||
+      this.#flowArrowsSource !== uvPoint ||
+      this.#flowArrowsCount !== count
+    ) {
+      this.#disposeFlowArrows()
+      this.#createFlowArrows(uvPoint, count)
+    }
+
+    if (this.#flowArrows) {
+      const uniforms = this.#flowArrows.material.uniforms
+      uniforms.uPointPositionTexture.value = texture
+      uniforms.uTime.value = elapsedTime
+      uniforms.uFlowFieldFrequency.value =
+        model.getMotionSettings()?.frequency ?? 0
+      uniforms.uLength.value = radius * RELATIVE_SIZE * 2
+      this.#flowArrows.visible = true
+    }
+  }
+
+  /**
+   * Create flow arrows
+   *
+   * @param   {THREE.BufferAttribute} uvPoint
+   * @param   {number}                count
+   * @returns {void}
+   * @note    Every arrow is a line segment with two vertices
+   *          that share the point UV. The `aEnd` attribute determines
+   *          which one is the end of the segment
+   */
+  #createFlowArrows(uvPoint: THREE.BufferAttribute, count: number): void {
+    const arrows = Math.min(count, MAX_ARROWS)
+    const step = count / arrows
+    const uvArray = new Float32Array(arrows * 4)
+    const endArray = new Float32Array(arrows * 2)
+    for (let i = 0; i < arrows; i++) {
+      const index = Math.floor(i * step)
+      const u = uvPoint.getX(index)
+      const v = uvPoint.getY(index)
+      uvArray.set([u, v, u, v], i * 4)
+      endArray.set([0, 1], i * 2)
+    }
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('aUvPoint', new THREE.BufferAttribute(uvArray, 2))
+    geometry.setAttribute('aEnd', new THREE.BufferAttribute(endArray, 1))
+
+    /**
+     * @note Vertex positions are taken from the GPGPU texture,
+     *       so the `position` attribute is only used to set
+     *       the number of vertices
+     */
+    geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(arrows * 2 * 3), 3),
+    )
+
+    this.#flowArrows = new THREE.LineSegments(
+      geometry,
+      new THREE.ShaderMaterial({
+        vertexShader: arrowVertexShader,
+        fragmentShader: arrowFragmentShader,
+        uniforms: {
+          uTime: new THREE.Uniform(0),
+          uFlowFieldFrequency: new THREE.Uniform(0),
+          uLength: new THREE.Uniform(0),
+          uPointPositionTexture: new THREE.Uniform(null),
+          uColor: new THREE.Uniform(new THREE.Color(OVERLAY_COLOR)),
+        },
+        transparent: true,
+      }),
+    )
+    this.#flowArrows.frustumCulled = false
+    this.#flowArrowsSource = uvPoint
+    this.#flowArrowsCount = count
+    this.#rendererManager.scene.add(this.#flowArrows)
+  }
+
+  /**
+   * Check if an overlay can be shown
+   *
+   * @param   {OverlayName} name
+   * @returns {boolean}
+   */
+  #canShow(name: OverlayName): boolean {
+    return this.#isEnabled && this.#isVisible[name]
+  }
+
+  /**
+   * Get model radius
+   *
+   * @param   {Pointer} pointer
+   * @returns {number}
+   * @note    The pointer mesh is a simplified version of the model,
+   *          so its bounding sphere is used to size the overlays
+   */
+  #getRadius(pointer: Pointer): number {
+    const geometry = pointer.mesh?.geometry
+    if (!geometry) {
+      return 1
+    }
+
+    if (!geometry.boundingSphere) {
+      geometry.computeBoundingSphere()
+    }
+
+    return geometry.boundingSphere?.radius || 1
+  }
+
+  /**
+   * Dispose pointer mesh overlay
+   *
+   * @returns {void}
+   */
+  #disposePointerMesh(): void {
+    if (this.#pointerMesh) {
+      this.#rendererManager.scene.remove(this.#pointerMesh)
+      this.#pointerMesh.material.dispose()
+      this.#pointerMesh = null
+    }
+  }
+
+  /**
+   * Dispose flow arrows overlay
+   *
+   * @returns {void}
+   */
+  #disposeFlowArrows(): void {
+    if (this.#flowArrows) {
+      this.#rendererManager.scene.remove(this.#flowArrows)
+      this.#flowArrows.geometry.dispose()
+      this.#flowArrows.material.dispose()
+      this.#flowArrows = null
+      this.#flowArrowsSource = null
+    }
+  }
+
+  /**
+   * Init pointer hit overlay
+   *
+   * @returns {void}
+   * @note    Radius spheres share a unit sphere geometry,
+   *          that is scaled with the pointer min/max radius
+   */
+  #initPointerHit(): void {
+    this.#pointerHitMarker = new THREE.Mesh(
+      new THREE.SphereGeometry(1, 8, 8),
+      new THREE.MeshBasicMaterial({color: OVERLAY_COLOR}),
+    )
+
+    const radGeometry = new THREE.SphereGeometry(1, 16, 12)
+    this.#pointerMinRad = new THREE.Mesh(
+      radGeometry,
+      new THREE.MeshBasicMaterial({
+        color: OVERLAY_COLOR,
+        wireframe: true,
+        transparent: true,
+        opacity: 0.5,
+      }),
+    )
+    this.#pointerMaxRad = new THREE.Mesh(
+      radGeometry,
+      new THREE.MeshBasicMaterial({
+        color: OVERLAY_COLOR,
+        wireframe: true,
+        transparent: true,
+        opacity: 0.2,
+      }),
+    )
+
+    this.#pointerHit = new THREE.Group()
+    this.#pointerHit.add(
+      this.#pointerHitMarker,
+      this.#pointerMinRad,
+      this.#pointerMaxRad,
+    )
+    this.#pointerHit.visible = false
+    this.#rendererManager.scene.add(this.#pointerHit)
+  }
+
+  /**
+   * Init texture preview overlay
+   *
+   * @returns {void}
+   * @note    The preview is drawn after the scene (`renderOrder`)
+   *          and over it (no depth test)
+   */
+  #initTexturePreview(): void {
+    this.#texturePreview = new THREE.Mesh(
+      new THREE.PlaneGeometry(1, 1),
+      new THREE.ShaderMaterial({
+        vertexShader: textureVertexShader,
+        fragmentShader: textureFragmentShader,
+        uniforms: {
+          uTexture: new THREE.Uniform(null),
+          uRange: new THREE.Uniform(1),
+          uAspect: new THREE.Uniform(1),
+          uHeight: new THREE.Uniform(TEXTURE_PREVIEW_HEIGHT),
+          uMargin: new THREE.Uniform(0.05),
+        },
+        depthTest: false,
+        depthWrite: false,
+      }),
+    )
+    this.#texturePreview.frustumCulled = false
+    this.#texturePreview.renderOrder = 999
+    this.#texturePreview.visible = false
+    this.#rendererManager.scene.add(this.#texturePreview)
+  }
+}
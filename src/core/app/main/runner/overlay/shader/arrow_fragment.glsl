@@ -0,0 +1,13 @@
+/**
+ * @description Flow arrow fragment shader
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Arrows fade from their start to their end,
+ *              so the direction can be noticed
+ */
+uniform vec3 uColor;
+
+varying float vEnd;
+
+void main() {
+    gl_FragColor = vec4(uColor, 1.0 - vEnd * 0.8);
+}
@@ -0,0 +1,40 @@
+/**
+ * @description Flow arrow vertex shader
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Each arrow is a line segment that starts at the point
+ *              position and follows the flow field direction.
+ *              The direction is calculated in the same way that it is
+ *              calculated in the GPGPU fragment shader
+ */
+uniform float     uTime;
+uniform float     uFlowFieldFrequency;
+uniform float     uLength;
+uniform sampler2D uPointPositionTexture;
+
+attribute vec2  aUvPoint;
+attribute float aEnd;
+
+varying float vEnd;
+
+#include ../../model/gpgpu/shader/utils/calcSimplexNoise4d.glsl
+
+void main() {
+    vec4 vertexPosition = texture(uPointPositionTexture, aUvPoint);
+
+    vec3 flowField = vec3(
+        calcSimplexNoise4d(
+            vec4(vertexPosition.xyz + 0.0, uTime * uFlowFieldFrequency)
+        ),
+        calcSimplexNoise4d(
+            vec4(vertexPosition.xyz + 1.0, uTime * uFlowFieldFrequency)
+        ),
+        calcSimplexNoise4d(
+            vec4(vertexPosition.xyz + 2.0, uTime * uFlowFieldFrequency)
+        )
+    );
+    vertexPosition.xyz += normalize(flowField) * uLength * aEnd;
+
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(vertexPosition.xyz, 1.0);
+
+    vEnd = aEnd;
+}
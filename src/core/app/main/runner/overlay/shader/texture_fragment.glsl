@@ -0,0 +1,22 @@
+/**
+ * @description Texture preview fragment shader
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Left half shows point positions (`xyz` as `rgb`,
+ *              normalized with the model radius).
+ *              Right half shows point life (`a` as grayscale)
+ */
+uniform sampler2D uTexture;
+uniform float     uRange;
+
+varying vec2 vUv;
+
+void main() {
+    vec2 uv   = vec2(fract(vUv.x * 2.0), vUv.y);
+    vec4 data = texture(uTexture, uv);
+
+    vec3 color = vUv.x < 0.5 ?
+                 data.xyz / uRange * 0.5 + 0.5 :
+                 vec3(data.a);
+
+    gl_FragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,21 @@
+/**
+ * @description Texture preview vertex shader
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The preview is drawn directly in clip space
+ *              (at the bottom left corner of the canvas),
+ *              so it is not affected by the camera
+ */
+uniform float uAspect;
+uniform float uHeight;
+uniform float uMargin;
+
+varying vec2 vUv;
+
+void main() {
+    vec2 size   = vec2(2.0 * uHeight / uAspect, uHeight);
+    vec2 offset = vec2(-1.0 + uMargin / uAspect, -1.0 + uMargin);
+
+    gl_Position = vec4(offset + (position.xy + 0.5) * size, 0.0, 1.0);
+
+    vUv = uv;
+}
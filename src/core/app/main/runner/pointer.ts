@@ -2,12 +2,18 @@
  * @description Pointer
  * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
  * @note        This class handles the logic related to the
- *              pointer and its interactions
+ *              pointer and its interactions.
+ *              Pointer interactions are raycasted against a low poly
+ *              model. If there is not a low poly model, a simplified
+ *              version (proxy) of the high poly model is generated
+ *              (from the mesh already loaded by the model entity)
  */
 import * as THREE from 'three'
 import ModelLoaderManager from '../../../services/model-loader-manager.js'
 import RendererManager from '../../../services/renderer-manager.js'
 import AbstractEntity from './abstract-entity.js'
+import {simplifyGeometry} from '../../../services/model-loader-manager/geometry-simplifier.js'
+import type {ModelInput, ModelLoadOptions} from '../../../types'
 
 export default class Pointer extends AbstractEntity {
   /**
@@ -43,33 +49,97 @@ export default class Pointer extends AbstractEntity {
    */
   #boundHandlePointerLeave: () => void
 
+  /**
+   * @type {number | null}
+   * @note Target number of triangles of the proxy.
+   *       If it is `null`, the loaded model is used as it is
+   */
+  readonly #proxyTriangles: number | null
+
+  /**
+   * @type {AbstractEntity | null}
+   * @note Entity whose loaded mesh is simplified to generate the proxy.
+   *       If it is `null`, the mesh loaded by this entity is simplified
+   */
+  readonly #proxyEntity: AbstractEntity | null
+
   /**
    * Constructor
    *
-   * @param {RendererManager}    rendererManager
-   * @param {string}             modelUrl
-   * @param {ModelLoaderManager} modelLoaderManager
+   * @param {RendererManager}       rendererManager
+   * @param {ModelInput}            modelSource
+   * @param {ModelLoaderManager}    modelLoaderManager
+   * @param {ModelLoadOptions}      loadOptions
+   * @param {number | null}         proxyTriangles
+   * @param {AbstractEntity | null} proxyEntity
    */
   constructor(
     rendererManager: RendererManager,
-    modelUrl: string,
+    modelSource: ModelInput,
     modelLoaderManager: ModelLoaderManager,
+    loadOptions: ModelLoadOptions = {},
+    proxyTriangles: number | null = null,
+    proxyEntity: AbstractEntity | null = null,
   ) {
-    super(modelUrl, modelLoaderManager)
+    super(modelSource, modelLoaderManager, loadOptions)
 
     this.#rendererManager = rendererManager
+    this.#proxyTriangles = proxyTriangles
+    this.#proxyEntity = proxyEntity
     this.#initRaycaster()
   }
 
+  /**
+   * @inheritdoc
+   * @note If a proxy is required, the loaded model is simplified.
+   *       If there is a proxy entity, its mesh is simplified
+   *       (so the model is not loaded and merged again)
+   */
+  async load(
+    onProgress?: (url: string, event: ProgressEvent) => void,
+  ): Promise<void> {
+    if (this.#proxyTriangles === null) {
+      await super.load(onProgress)
+      return
+    }
+
+    if (!this.#proxyEntity) {
+      await super.load(onProgress)
+    }
+
+    const mesh = this.#proxyEntity
+      ? await this.#proxyEntity.loadedMesh
+      : (this.mesh as THREE.Mesh<THREE.BufferGeometry, THREE.Material>)
+    if (this.isDisposed) {
+      return
+    }
+
+    const geometry = await simplifyGeometry(mesh.geometry, this.#proxyTriangles)
+    if (this.isDisposed) {
+      geometry.dispose()
+      return
+    }
+
+    if (mesh === this.mesh) {
+      this.mesh.geometry.dispose()
+      this.mesh.geometry = geometry
+    } else {
+      this.mesh = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({side: mesh.material.side}),
+      )
+    }
+  }
+
   /**
    * @inheritdoc
    */
   dispose(): void {
-    this.#rendererManager.renderer.domElement.removeEventListener(
+    this.#rendererManager.canvas.removeEventListener(
       'pointermove',
       this.#boundHandlePointerMove,
     )
-    this.#rendererManager.renderer.domElement.removeEventListener(
+    this.#rendererManager.canvas.removeEventListener(
       'pointerleave',
       this.#boundHandlePointerLeave,
     )
@@ -117,11 +187,11 @@ export default class Pointer extends AbstractEntity {
     this.#boundHandlePointerMove = this.#handlePointerMove.bind(this)
     this.#boundHandlePointerLeave = this.#handlePointerLeave.bind(this)
 
-    this.#rendererManager.renderer.domElement.addEventListener(
+    this.#rendererManager.canvas.addEventListener(
       'pointermove',
       this.#boundHandlePointerMove,
     )
-    this.#rendererManager.renderer.domElement.addEventListener(
+    this.#rendererManager.canvas.addEventListener(
       'pointerleave',
       this.#boundHandlePointerLeave,
     )
@@ -3,4 +3,6 @@
  * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
  */
 export {default as Thr2Pxl} from './app/main.js'
+export {default as ConfigError} from './services/config-manager/config-error.js'
+export {configSchema} from './services/config-manager/schema.js'
 export * from './types'
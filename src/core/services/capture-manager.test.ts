@@ -0,0 +1,188 @@
+/**
+ * @description Capture manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest'
+import CaptureManager from './capture-manager.js'
+import type RendererManager from './renderer-manager.js'
+
+/**
+ * @constant
+ * @type {string}
+ * @note Video type that is reported as supported,
+ *       but the recorder can not be created with it
+ */
+const BROKEN_TYPE: string = 'video/mp4'
+
+/**
+ * @note Media recorder that records a single chunk when it is stopped
+ */
+class FakeMediaRecorder {
+  /**
+   * @type {FakeMediaRecorder[]}
+   */
+  static instances: FakeMediaRecorder[] = []
+
+  /**
+   * @type {RecordingState}
+   */
+  state: RecordingState = 'inactive'
+
+  /**
+   * @type {string}
+   */
+  mimeType: string
+
+  /**
+   * @type {((e: {data: Blob}) => void) | null}
+   */
+  ondataavailable: ((e: {data: Blob}) => void) | null = null
+
+  /**
+   * @type {(() => void) | null}
+   */
+  onstop: (() => void) | null = null
+
+  /**
+   * @type {(() => void) | null}
+   */
+  onerror: (() => void) | null = null
+
+  /**
+   * @type {() => void}
+   */
+  stop = vi.fn(() => {
+    if (this.state === 'inactive') {
+      throw new Error('Recorder is not recording.')
+    }
+
+    this.state = 'inactive'
+    this.ondataavailable?.({data: new Blob(['video'])})
+    this.onstop?.()
+  })
+
+  /**
+   * Constructor
+   *
+   * @param {MediaStream}          _stream
+   * @param {MediaRecorderOptions} options
+   * @throws Error
+   */
+  constructor(_stream: MediaStream, options: MediaRecorderOptions) {
+    if (options.mimeType === BROKEN_TYPE) {
+      throw new Error('Recorder could not be created.')
+    }
+
+    this.mimeType = options.mimeType ?? ''
+    FakeMediaRecorder.instances.push(this)
+  }
+
+  /**
+   * Check if a type is supported
+   *
+   * @param   {string}  type
+   * @returns {boolean}
+   */
+  static isTypeSupported(type: string): boolean {
+    return type.startsWith('video/webm') || type === BROKEN_TYPE
+  }
+
+  /**
+   * Start
+   *
+   * @returns {void}
+   */
+  start(): void {
+    this.state = 'recording'
+  }
+
+  /**
+   * Fail
+   *
+   * @returns {void}
+   */
+  fail(): void {
+    this.state = 'inactive'
+    this.onerror?.()
+  }
+}
+
+/**
+ * Create capture manager
+ *
+ * @returns {{captureManager: CaptureManager; captureStream: () => MediaStream; stopTrack: () => void}}
+ */
+const createCaptureManager = (): {
+  captureManager: CaptureManager
+  captureStream: () => MediaStream
+  stopTrack: () => void
+} => {
+  const stopTrack = vi.fn()
+  const captureStream = vi.fn(
+    () => ({getTracks: () => [{stop: stopTrack}]}) as unknown as MediaStream,
+  )
+  const captureManager = new CaptureManager({
+    canvas: {captureStream: captureStream},
+  } as unknown as RendererManager)
+
+  return {
+    captureManager: captureManager,
+    captureStream: captureStream,
+    stopTrack: stopTrack,
+  }
+}
+
+describe('CaptureManager.record', () => {
+  beforeEach(() => {
+    FakeMediaRecorder.instances = []
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder)
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('records the canvas for the given duration', async () => {
+    const {captureManager, stopTrack} = createCaptureManager()
+    const video = captureManager.record(30, 2)
+    vi.advanceTimersByTime(2000)
+
+    const blob = await video
+    expect(blob.type).toBe('video/webm;codecs=vp9')
+    expect(blob.size).toBeGreaterThan(0)
+    expect(stopTrack).toHaveBeenCalledOnce()
+  })
+
+  it('rejects unsupported types without capturing the canvas', async () => {
+    const {captureManager, captureStream} = createCaptureManager()
+
+    await expect(captureManager.record(30, 2, 'video/ogg')).rejects.toThrow(
+      'Video type "video/ogg" is not supported.',
+    )
+    expect(captureStream).not.toHaveBeenCalled()
+  })
+
+  it('rejects and stops the stream when the recorder fails to start', async () => {
+    const {captureManager, stopTrack} = createCaptureManager()
+
+    await expect(captureManager.record(30, 2, BROKEN_TYPE)).rejects.toThrow(
+      'Recorder could not be created.',
+    )
+    expect(stopTrack).toHaveBeenCalledOnce()
+  })
+
+  it('rejects and stops the stream when the recording fails', async () => {
+    const {captureManager, stopTrack} = createCaptureManager()
+    const video = captureManager.record(30, 2)
+    const [recorder] = FakeMediaRecorder.instances
+    recorder.fail()
+
+    await expect(video).rejects.toThrow('Video could not be recorded.')
+    expect(stopTrack).toHaveBeenCalledOnce()
+
+    vi.advanceTimersByTime(2000)
+    expect(recorder.stop).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * @description Capture manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              logic used to get images and videos of the rendered scene
+ */
+import RendererManager from './renderer-manager.js'
+
+/**
+ * @constant
+ * @type {string}
+ */
+const DEFAULT_IMAGE_TYPE: string = 'image/png'
+
+/**
+ * @constant
+ * @type {string[]}
+ * @note Video types sorted by preference.
+ *       The first one supported by the browser is used
+ */
+const VIDEO_TYPES: string[] = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4',
+]
+
+export default class CaptureManager {
+  /**
+   * @type {RendererManager}
+   */
+  readonly #rendererManager: RendererManager
+
+  /**
+   * Constructor
+   *
+   * @param {RendererManager} rendererManager
+   */
+  constructor(rendererManager: RendererManager) {
+    this.#rendererManager = rendererManager
+  }
+
+  /**
+   * Capture the current frame as an image
+   *
+   * @param   {string}        type
+   * @param   {number}        scale
+   * @param   {number}        quality
+   * @returns {Promise<Blob>}
+   * @throws  Error
+   * @note    Quality is only used by lossy formats (i.e.: `image/webp`)
+   */
+  captureFrame(
+    type: string = DEFAULT_IMAGE_TYPE,
+    scale: number = 1,
+    quality?: number,
+  ): Promise<Blob> {
+    const canvas = this.#rendererManager.capture(scale)
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => {
+          if (blob) {
+            resolve(blob)
+          } else {
+            reject(new Error(`Frame could not be captured as "${type}".`))
+          }
+        },
+        type,
+        quality,
+      )
+    })
+  }
+
+  /**
+   * Record a video of the canvas
+   *
+   * @param   {number}        fps
+   * @param   {number}        duration
+   * @param   {string}        type
+   * @returns {Promise<Blob>}
+   * @throws  Error
+   * @note    Duration is expressed in seconds.
+   *          The video is recorded in real time, so the render loop
+   *          must be running while recording
+   * @note    Canvas stream is stopped when the recording ends or fails
+   */
+  record(fps: number, duration: number, type?: string): Promise<Blob> {
+    if (
+      typeof MediaRecorder === 'undefined' ||
+      !('captureStream' in this.#rendererManager.canvas)
+    ) {
+      return Promise.reject(new Error('Video recording is not supported.'))
+    }
+
+    if (type !== undefined && !MediaRecorder.isTypeSupported(type)) {
+      return Promise.reject(new Error(`Video type "${type}" is not supported.`))
+    }
+
+    const mimeType =
+      type ??
+      VIDEO_TYPES.find((videoType) => MediaRecorder.isTypeSupported(videoType))
+
+    return new Promise((resolve, reject) => {
+      const stream = this.#rendererManager.canvas.captureStream(fps)
+      const stopStream = () =>
+        stream.getTracks().forEach((track) => track.stop())
+      const chunks: Blob[] = []
+      let recorder: MediaRecorder
+
+      try {
+        recorder = new MediaRecorder(stream, {mimeType: mimeType})
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) {
+            chunks.push(e.data)
+          }
+        }
+        recorder.onstop = () => {
+          clearTimeout(timeout)
+          stopStream()
+          resolve(new Blob(chunks, {type: recorder.mimeType}))
+        }
+        recorder.onerror = () => {
+          clearTimeout(timeout)
+          stopStream()
+          reject(new Error('Video could not be recorded.'))
+        }
+
+        recorder.start()
+      } catch (error) {
+        stopStream()
+        reject(error)
+        return
+      }
+
+      /**
+       * @note Recorder events are dispatched asynchronously,
+       *       so the timer is set before they are handled
+       */
+      const timeout = setTimeout(() => {
+        if (recorder.state !== 'inactive') {
+          recorder.stop()
+        }
+      }, duration * 1000)
+    })
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @description Clock manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {describe, expect, it, vi} from 'vitest'
+import ClockManager from './clock-manager.js'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Time step that is exactly represented as a float,
+ *       so elapsed times can be compared without a tolerance
+ */
+const TIME_STEP: number = 0.25
+
+describe('ClockManager', () => {
+  it('advances with the given time when a fixed time step is not set', () => {
+    const clockManager = new ClockManager()
+    const onStep = vi.fn()
+    clockManager.advance(0.1, onStep)
+
+    expect(onStep).toHaveBeenCalledExactlyOnceWith(0.1, 0.1)
+    expect(clockManager.elapsedTime).toBe(0.1)
+  })
+
+  it('advances with fixed steps and accumulates the remaining time', () => {
+    const clockManager = new ClockManager(false, TIME_STEP)
+    const onStep = vi.fn()
+    clockManager.advance(0.625, onStep)
+
+    expect(onStep.mock.calls).toEqual([
+      [TIME_STEP, 0.25],
+      [TIME_STEP, 0.5],
+    ])
+
+    clockManager.advance(0.125, onStep)
+
+    expect(onStep).toHaveBeenLastCalledWith(TIME_STEP, 0.75)
+    expect(clockManager.elapsedTime).toBe(0.75)
+  })
+
+  it('limits the sub-steps when it follows the real time', () => {
+    const clockManager = new ClockManager(false, TIME_STEP, 2)
+    const onStep = vi.fn()
+    clockManager.advance(2, onStep, true)
+
+    expect(onStep).toHaveBeenCalledTimes(2)
+    expect(clockManager.elapsedTime).toBe(0.5)
+
+    clockManager.advance(0.125, onStep, true)
+
+    expect(onStep).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not limit the sub-steps when it is stepped manually', () => {
+    const clockManager = new ClockManager(true, TIME_STEP, 2)
+    const onStep = vi.fn()
+    clockManager.advance(2, onStep)
+
+    expect(onStep).toHaveBeenCalledTimes(8)
+    expect(clockManager.elapsedTime).toBe(2)
+  })
+
+  it('sets a later time from the current one', () => {
+    const clockManager = new ClockManager(true, TIME_STEP)
+    const onStep = vi.fn()
+    const onReset = vi.fn()
+    clockManager.setTime(1.125, onStep, onReset)
+
+    expect(onStep).toHaveBeenCalledTimes(4)
+    expect(clockManager.elapsedTime).toBe(1)
+
+    onStep.mockClear()
+    clockManager.setTime(1.625, onStep, onReset)
+
+    expect(onReset).not.toHaveBeenCalled()
+    expect(onStep.mock.calls).toEqual([
+      [TIME_STEP, 1.25],
+      [TIME_STEP, 1.5],
+    ])
+  })
+
+  it('replays the simulation when an earlier time is set', () => {
+    const clockManager = new ClockManager(true, TIME_STEP)
+    const onStep = vi.fn()
+    const onReset = vi.fn()
+    clockManager.setTime(1, onStep, onReset)
+    onStep.mockClear()
+    clockManager.setTime(0.5, onStep, onReset)
+
+    expect(onReset).toHaveBeenCalledOnce()
+    expect(onStep.mock.calls).toEqual([
+      [TIME_STEP, 0.25],
+      [TIME_STEP, 0.5],
+    ])
+  })
+
+  it('sets the exact time when a fixed time step is not set', () => {
+    const clockManager = new ClockManager(true)
+    const onStep = vi.fn()
+    clockManager.setTime(0.04, onStep, vi.fn())
+
+    expect(onStep).toHaveBeenCalledTimes(3)
+    expect(onStep).toHaveBeenLastCalledWith(
+      expect.closeTo(0.04 - 2 / 60),
+      expect.closeTo(0.04),
+    )
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * @description Clock manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              time logic.
+ *              It measures the real time between frames, and it advances
+ *              the simulation time. The simulation can be advanced
+ *              with the real time (`auto` clock) or only when it is
+ *              requested (`manual` clock).
+ *              If a fixed time step is set, the simulation is advanced
+ *              in steps of that size (sub-steps), so the simulation speed
+ *              does not depend on the frame rate
+ * {@link       https://gafferongames.com/post/fix_your_timestep/}
+ */
+import {Timer} from 'three/addons/misc/Timer.js'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Time step (in seconds) used to replay the simulation
+ *       when a fixed time step is not set
+ */
+const DEFAULT_REPLAY_TIME_STEP: number = 1 / 60
+
+/**
+ * @constant
+ * @type {number}
+ */
+const DEFAULT_MAX_SUB_STEPS: number = 5
+
+export default class ClockManager {
+  /**
+   * @type {boolean}
+   */
+  readonly isManual: boolean
+
+  /**
+   * @type {number}
+   * @note Simulation time (in seconds)
+   */
+  elapsedTime: number = 0
+
+  /**
+   * @type {Timer}
+   */
+  readonly #timer: Timer
+
+  /**
+   * @type {number | null}
+   */
+  readonly #fixedTimeStep: number | null
+
+  /**
+   * @type {number}
+   */
+  readonly #maxSubSteps: number
+
+  /**
+   * @type {number}
+   * @note Time that was not simulated yet because it is
+   *       less than the fixed time step
+   */
+  #accumulator: number = 0
+
+  /**
+   * Constructor
+   *
+   * @param {boolean}       isManual
+   * @param {number | null} fixedTimeStep
+   * @param {number}        maxSubSteps
+   */
+  constructor(
+    isManual: boolean = false,
+    fixedTimeStep: number | null = null,
+    maxSubSteps: number = DEFAULT_MAX_SUB_STEPS,
+  ) {
+    this.isManual = isManual
+    this.#fixedTimeStep =
+      fixedTimeStep !== null && fixedTimeStep > 0 ? fixedTimeStep : null
+    this.#maxSubSteps = maxSubSteps
+    this.#timer = new Timer()
+  }
+
+  /**
+   * Update
+   *
+   * @param   {number} timestamp
+   * @returns {number}
+   * @note    It is returned the real time (in seconds) since the last frame
+   */
+  update(timestamp?: number): number {
+    this.#timer.update(timestamp)
+    return this.#timer.getDelta()
+  }
+
+  /**
+   * Advance simulation time
+   *
+   * @param   {number}                                           deltaTime
+   * @param   {(deltaTime: number, elapsedTime: number) => void} onStep
+   * @param   {boolean}                                          isRealTime
+   * @returns {void}
+   * @note    The step handler is executed for each simulated step.
+   *          When the simulation follows the real time, the number of
+   *          sub-steps is limited, so a slow frame does not produce more
+   *          work for the next one (the time that can not be simulated
+   *          is discarded)
+   */
+  advance(
+    deltaTime: number,
+    onStep: (deltaTime: number, elapsedTime: number) => void,
+    isRealTime: boolean = false,
+  ): void {
+    if (this.#fixedTimeStep === null) {
+      this.elapsedTime += deltaTime
+      onStep(deltaTime, this.elapsedTime)
+      return
+    }
+
+    this.#accumulator += deltaTime
+    let subSteps = 0
+    while (this.#accumulator >= this.#fixedTimeStep) {
+      if (isRealTime && subSteps >= this.#maxSubSteps) {
+        this.#accumulator = 0
+        break
+      }
+
+      this.#accumulator -= this.#fixedTimeStep
+      this.elapsedTime += this.#fixedTimeStep
+      onStep(this.#fixedTimeStep, this.elapsedTime)
+      subSteps++
+    }
+  }
+
+  /**
+   * Set simulation time
+   *
+   * @param   {number}                                           time
+   * @param   {(deltaTime: number, elapsedTime: number) => void} onStep
+   * @param   {() => void}                                       onReset
+   * @returns {void}
+   * @note    Simulation is advanced with fixed steps until the given time.
+   *          If the given time is before the current one, the reset handler
+   *          is executed (it should reset the simulation state)
+   *          and the simulation is replayed from the start.
+   *          Its cost grows with the number of replayed steps
+   */
+  setTime(
+    time: number,
+    onStep: (deltaTime: number, elapsedTime: number) => void,
+    onReset: () => void,
+  ): void {
+    time = Math.max(0, time)
+    if (time < this.elapsedTime + this.#accumulator) {
+      onReset()
+      this.elapsedTime = 0
+      this.#accumulator = 0
+    }
+
+    const timeStep = this.#fixedTimeStep ?? DEFAULT_REPLAY_TIME_STEP
+    const steps = Math.floor((time - this.elapsedTime) / timeStep)
+    this.#accumulator = 0
+    for (let i = 0; i < steps; i++) {
+      this.elapsedTime += timeStep
+      onStep(timeStep, this.elapsedTime)
+    }
+
+    const remainder = Math.max(0, time - this.elapsedTime)
+    if (this.#fixedTimeStep === null) {
+      if (remainder > 0) {
+        this.elapsedTime += remainder
+        onStep(remainder, this.elapsedTime)
+      }
+    } else {
+      this.#accumulator = remainder
+    }
+  }
+
+  /**
+   * Reset real time measurement
+   *
+   * @returns {void}
+   * @note    It should be called when the render loop starts, so the time
+   *          elapsed while the loop was stopped does not produce a huge delta
+   */
+  reset(): void {
+    this.#timer.reset()
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#timer.dispose()
+  }
+}
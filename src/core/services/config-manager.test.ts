@@ -0,0 +1,193 @@
+/**
+ * @description Config manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {describe, expect, it} from 'vitest'
+import ConfigManager from './config-manager.js'
+
+/**
+ * Create a valid configuration
+ *
+ * @param   {Record<string, unknown>} config
+ * @returns {Record<string, unknown>}
+ */
+const createConfig = (
+  config: Record<string, unknown> = {},
+): Record<string, unknown> => ({
+  models: {
+    0: {
+      src: {highPoly: '/models/high-poly.glb'},
+      width: 'container',
+      height: 'container',
+    },
+  },
+  ...config,
+})
+
+/**
+ * Get the paths of the issues found in a configuration
+ *
+ * @param   {unknown}  config
+ * @returns {string[]}
+ */
+const getIssuePaths = (config: unknown): string[] =>
+  new ConfigManager().validate(config).map((issue) => issue.path)
+
+describe('ConfigManager', () => {
+  it('accepts a valid configuration', () => {
+    expect(new ConfigManager().validate(createConfig())).toEqual([])
+  })
+
+  it('requires an object', () => {
+    expect(new ConfigManager().validate(null)).toEqual([
+      {path: 'config', message: 'Must be an object.'},
+    ])
+  })
+
+  it('collects every issue with its path', () => {
+    const paths = getIssuePaths(
+      createConfig({
+        seed: 'seed',
+        clock: 'realtime',
+        unknown: true,
+        pointer: {strength: -1, minRad: 2, maxRad: 1},
+      }),
+    )
+
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        'seed',
+        'clock',
+        'unknown',
+        'pointer.strength',
+        'pointer.minRad',
+      ]),
+    )
+  })
+
+  it('requires the default breakpoint', () => {
+    expect(
+      getIssuePaths({
+        models: {
+          768: {src: {highPoly: '/model.glb'}, width: 1, height: 1},
+        },
+      }),
+    ).toEqual(['models.0'])
+  })
+
+  it('validates breakpoints and model sizes', () => {
+    const paths = getIssuePaths({
+      models: {
+        0: {src: {highPoly: '/model.glb'}, width: 0},
+        small: {src: {highPoly: '/model.glb'}, width: 1, height: 1},
+      },
+    })
+
+    expect(paths).toEqual(['models.0.width', 'models.0.height', 'models.small'])
+  })
+
+  it('accepts in-memory model sources', () => {
+    const sources = [
+      new ArrayBuffer(8),
+      new Blob(['model']),
+      {isBufferGeometry: true},
+      {isObject3D: true},
+      {positions: new Float32Array(6), colors: new Float32Array(8)},
+    ]
+
+    for (const source of sources) {
+      expect(
+        getIssuePaths(
+          createConfig({
+            models: {0: {src: {highPoly: source}, width: 1, height: 1}},
+          }),
+        ),
+      ).toEqual([])
+    }
+  })
+
+  it('validates model sources', () => {
+    const paths = getIssuePaths({
+      models: {
+        0: {
+          src: {
+            highPoly: '',
+            lowPoly: {positions: new Float32Array(4)},
+            proxyTriangles: 1.5,
+            format: 'fbx',
+          },
+          width: 1,
+          height: 1,
+        },
+        768: {
+          src: {
+            highPoly: {positions: new Float32Array(6), colors: [1, 1, 1]},
+          },
+          width: 1,
+          height: 1,
+        },
+      },
+    })
+
+    expect(paths).toEqual([
+      'models.0.src.highPoly',
+      'models.0.src.lowPoly.positions',
+      'models.0.src.proxyTriangles',
+      'models.0.src.format',
+      'models.768.src.highPoly.colors',
+    ])
+  })
+
+  it('requires at least one proxy triangle', () => {
+    expect(
+      getIssuePaths(
+        createConfig({
+          models: {
+            0: {
+              src: {highPoly: '/model.glb', proxyTriangles: 0},
+              width: 1,
+              height: 1,
+            },
+          },
+        }),
+      ),
+    ).toEqual(['models.0.src.proxyTriangles'])
+  })
+
+  it('validates point settings', () => {
+    const paths = getIssuePaths(
+      createConfig({
+        models: {
+          0: {
+            src: {highPoly: '/model.glb'},
+            width: 1,
+            height: 1,
+            point: {
+              size: 0,
+              sampling: {mode: 'random', count: 0},
+              color: 0x1000000,
+            },
+          },
+        },
+      }),
+    )
+
+    expect(paths).toEqual([
+      'models.0.point.size',
+      'models.0.point.sampling.mode',
+      'models.0.point.sampling.count',
+      'models.0.point.color',
+    ])
+  })
+
+  it('validates the debug hotkey', () => {
+    expect(getIssuePaths(createConfig({debug: {hotkey: 'shift+alt'}}))).toEqual(
+      ['debug.hotkey'],
+    )
+    expect(
+      getIssuePaths(
+        createConfig({debug: {hotkey: false, enabled: 'url-param'}}),
+      ),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,696 @@
+/**
+ * @description Config manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              configuration validation logic.
+ *              Every problem is collected (not only the first one),
+ *              with the path of the related configuration value,
+ *              so all of them can be fixed at once
+ */
+import HotkeyManager from './hotkey-manager.js'
+import type {ConfigIssue} from '../types'
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const CONFIG_KEYS: string[] = [
+  'container',
+  'containerSelector',
+  'models',
+  'loader',
+  'renderer',
+  'pointer',
+  'quality',
+  'seed',
+  'clock',
+  'fixedTimeStep',
+  'maxSubSteps',
+  'validation',
+  'debug',
+  'isDebugging',
+  'autoPause',
+]
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const MODEL_KEYS: string[] = ['src', 'width', 'height', 'camera', 'point']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const MODEL_SRC_KEYS: string[] = [
+  'highPoly',
+  'lowPoly',
+  'proxyTriangles',
+  'meshes',
+  'format',
+]
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const MODEL_FORMATS: string[] = ['gltf', 'glb', 'ply', 'pcd', 'obj', 'stl']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const CAMERA_KEYS: string[] = [
+  'position',
+  'fov',
+  'near',
+  'far',
+  'isControlsEnabled',
+]
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const POSITION_KEYS: string[] = ['x', 'y', 'z']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const LOADER_KEYS: string[] = ['dracoUrl', 'ktx2TranscoderUrl', 'meshopt']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const POINT_KEYS: string[] = ['size', 'motion', 'sampling', 'color']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const MOTION_KEYS: string[] = ['frequency', 'strength', 'ratio', 'lifeDecay']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const SAMPLING_KEYS: string[] = ['mode', 'count']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const POINTER_KEYS: string[] = [
+  'strength',
+  'minRad',
+  'maxRad',
+  'pulseStrength',
+  'pulseFrequency',
+]
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const QUALITY_KEYS: string[] = ['targetFps', 'minDpr', 'maxDpr']
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const DEBUG_KEYS: string[] = ['hotkey', 'enabled']
+
+/**
+ * @note Range used to validate numbers
+ */
+interface NumberRange {
+  min?: number
+  max?: number
+  isExclusiveMin?: boolean
+  isInteger?: boolean
+}
+
+export default class ConfigManager {
+  /**
+   * @type {{path: string; message: string}[]}
+   */
+  #issues: ConfigIssue[] = []
+
+  /**
+   * Validate configuration
+   *
+   * @param   {unknown}                            config
+   * @returns {{path: string; message: string}[]}
+   * @note    It is returned every problem found.
+   *          If the configuration is valid, it is returned an empty list
+   */
+  validate(config: unknown): ConfigIssue[] {
+    this.#issues = []
+
+    if (this.#checkObject(config, 'config', CONFIG_KEYS)) {
+      this.#validateConfig(config)
+    }
+
+    return this.#issues
+  }
+
+  /**
+   * Validate root configuration
+   *
+   * @param   {Record<string, unknown>} config
+   * @returns {void}
+   */
+  #validateConfig(config: Record<string, unknown>): void {
+    if (
+      config.container !== undefined &&
+      typeof config.container !== 'string' &&
+      !(
+        typeof HTMLElement !== 'undefined' &&
+        config.container instanceof HTMLElement
+      )
+    ) {
+      this.#addIssue('container', 'Must be an HTMLElement or a selector.')
+    }
+    this.#checkString(config.containerSelector, 'containerSelector')
+
+    this.#validateModels(config.models)
+
+    if (this.#checkObject(config.loader, 'loader', LOADER_KEYS)) {
+      this.#checkString(config.loader.dracoUrl, 'loader.dracoUrl')
+      this.#checkString(
+        config.loader.ktx2TranscoderUrl,
+        'loader.ktx2TranscoderUrl',
+      )
+      this.#checkBoolean(config.loader.meshopt, 'loader.meshopt')
+    }
+
+    if (this.#checkObject(config.renderer, 'renderer', ['isShared'])) {
+      this.#checkBoolean(config.renderer.isShared, 'renderer.isShared')
+    }
+
+    this.#validatePointer(config.pointer)
+    this.#validateQuality(config.quality)
+
+    this.#checkNumber(config.seed, 'seed')
+    this.#checkEnum(config.clock, 'clock', ['auto', 'manual'])
+    this.#checkNumber(config.fixedTimeStep, 'fixedTimeStep', {
+      min: 0,
+      isExclusiveMin: true,
+    })
+    this.#checkNumber(config.maxSubSteps, 'maxSubSteps', {
+      min: 1,
+      isInteger: true,
+    })
+    this.#checkEnum(config.validation, 'validation', ['strict', 'lenient'])
+    this.#validateDebug(config.debug)
+    this.#checkBoolean(config.isDebugging, 'isDebugging')
+    this.#checkBoolean(config.autoPause, 'autoPause')
+  }
+
+  /**
+   * Validate models
+   *
+   * @param   {unknown} models
+   * @returns {void}
+   * @note    The `0` breakpoint is required,
+   *          because it defines the default model
+   */
+  #validateModels(models: unknown): void {
+    if (models === undefined) {
+      this.#addIssue('models', 'Is required.')
+      return
+    }
+
+    if (!this.#checkObject(models, 'models')) {
+      return
+    }
+
+    if (models[0] === undefined) {
+      this.#addIssue(
+        'models.0',
+        'Is required. It defines the default model that should be used.',
+      )
+    }
+
+    for (const breakpoint in models) {
+      const path = `models.${breakpoint}`
+      if (!/^\d+$/.test(breakpoint)) {
+        this.#addIssue(path, 'Breakpoint must be a non-negative integer.')
+      }
+
+      this.#validateModel(models[breakpoint], path)
+    }
+  }
+
+  /**
+   * Validate model
+   *
+   * @param   {unknown} model
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #validateModel(model: unknown, path: string): void {
+    if (!this.#checkObject(model, path, MODEL_KEYS)) {
+      return
+    }
+
+    if (model.src === undefined) {
+      this.#addIssue(`${path}.src`, 'Is required.')
+    } else if (this.#checkObject(model.src, `${path}.src`, MODEL_SRC_KEYS)) {
+      this.#checkModelInput(model.src.highPoly, `${path}.src.highPoly`)
+      if (model.src.lowPoly !== undefined) {
+        this.#checkModelInput(model.src.lowPoly, `${path}.src.lowPoly`)
+      }
+      this.#checkNumber(
+        model.src.proxyTriangles,
+        `${path}.src.proxyTriangles`,
+        {
+          min: 1,
+          isInteger: true,
+        },
+      )
+      this.#checkStringArray(model.src.meshes, `${path}.src.meshes`)
+      this.#checkEnum(model.src.format, `${path}.src.format`, MODEL_FORMATS)
+    }
+
+    for (const key of ['width', 'height']) {
+      if (model[key] === undefined) {
+        this.#addIssue(`${path}.${key}`, 'Is required.')
+      } else if (model[key] !== 'container') {
+        this.#checkNumber(model[key], `${path}.${key}`, {
+          min: 0,
+          isExclusiveMin: true,
+        })
+      }
+    }
+
+    this.#validateCamera(model.camera, `${path}.camera`)
+
+    if (this.#checkObject(model.point, `${path}.point`, POINT_KEYS)) {
+      this.#checkNumber(model.point.size, `${path}.point.size`, {
+        min: 0,
+        isExclusiveMin: true,
+      })
+      this.#validateMotion(model.point.motion, `${path}.point.motion`)
+      this.#validateSampling(model.point.sampling, `${path}.point.sampling`)
+      this.#checkColor(model.point.color, `${path}.point.color`)
+    }
+  }
+
+  /**
+   * Validate camera
+   *
+   * @param   {unknown} camera
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #validateCamera(camera: unknown, path: string): void {
+    if (!this.#checkObject(camera, path, CAMERA_KEYS)) {
+      return
+    }
+
+    if (this.#checkObject(camera.position, `${path}.position`, POSITION_KEYS)) {
+      for (const key of POSITION_KEYS) {
+        if (camera.position[key] === undefined) {
+          this.#addIssue(`${path}.position.${key}`, 'Is required.')
+        } else {
+          this.#checkNumber(camera.position[key], `${path}.position.${key}`)
+        }
+      }
+    }
+
+    this.#checkNumber(camera.fov, `${path}.fov`, {
+      min: 0,
+      max: 180,
+      isExclusiveMin: true,
+    })
+    this.#checkNumber(camera.near, `${path}.near`, {
+      min: 0,
+      isExclusiveMin: true,
+    })
+    this.#checkNumber(camera.far, `${path}.far`, {
+      min: 0,
+      isExclusiveMin: true,
+    })
+    this.#checkOrder(camera, 'near', 'far', path)
+    this.#checkBoolean(camera.isControlsEnabled, `${path}.isControlsEnabled`)
+  }
+
+  /**
+   * Validate point motion
+   *
+   * @param   {unknown} motion
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #validateMotion(motion: unknown, path: string): void {
+    if (!this.#checkObject(motion, path, MOTION_KEYS)) {
+      return
+    }
+
+    this.#checkNumber(motion.frequency, `${path}.frequency`, {min: 0})
+    this.#checkNumber(motion.strength, `${path}.strength`, {min: 0})
+    this.#checkNumber(motion.ratio, `${path}.ratio`, {min: 0, max: 1})
+    this.#checkNumber(motion.lifeDecay, `${path}.lifeDecay`, {min: 0})
+  }
+
+  /**
+   * Validate point sampling
+   *
+   * @param   {unknown} sampling
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #validateSampling(sampling: unknown, path: string): void {
+    if (!this.#checkObject(sampling, path, SAMPLING_KEYS)) {
+      return
+    }
+
+    this.#checkEnum(sampling.mode, `${path}.mode`, ['vertices', 'surface'])
+    this.#checkNumber(sampling.count, `${path}.count`, {
+      min: 1,
+      isInteger: true,
+    })
+  }
+
+  /**
+   * Validate pointer
+   *
+   * @param   {unknown} pointer
+   * @returns {void}
+   */
+  #validatePointer(pointer: unknown): void {
+    if (!this.#checkObject(pointer, 'pointer', POINTER_KEYS)) {
+      return
+    }
+
+    for (const key of POINTER_KEYS) {
+      this.#checkNumber(pointer[key], `pointer.${key}`, {min: 0})
+    }
+    this.#checkOrder(pointer, 'minRad', 'maxRad', 'pointer')
+  }
+
+  /**
+   * Validate quality
+   *
+   * @param   {unknown} quality
+   * @returns {void}
+   */
+  #validateQuality(quality: unknown): void {
+    if (!this.#checkObject(quality, 'quality', QUALITY_KEYS)) {
+      return
+    }
+
+    for (const key of QUALITY_KEYS) {
+      this.#checkNumber(quality[key], `quality.${key}`, {
+        min: 0,
+        isExclusiveMin: true,
+      })
+    }
+    this.#checkOrder(quality, 'minDpr', 'maxDpr', 'quality')
+  }
+
+  /**
+   * Validate debug
+   *
+   * @param   {unknown} debug
+   * @returns {void}
+   */
+  #validateDebug(debug: unknown): void {
+    if (!this.#checkObject(debug, 'debug', DEBUG_KEYS)) {
+      return
+    }
+
+    if (
+      debug.hotkey !== undefined &&
+      debug.hotkey !== false &&
+      (typeof debug.hotkey !== 'string' || !HotkeyManager.parse(debug.hotkey))
+    ) {
+      this.#addIssue(
+        'debug.hotkey',
+        'Must be `false` or a key combination (i.e.: `shift+alt+d`).',
+      )
+    }
+
+    if (debug.enabled !== 'url-param') {
+      this.#checkBoolean(debug.enabled, 'debug.enabled')
+    }
+  }
+
+  /**
+   * Check that a value is an object with known keys
+   *
+   * @param   {unknown}  value
+   * @param   {string}   path
+   * @param   {string[]} keys
+   * @returns {boolean}
+   * @note    It is returned if the value is an object that can be
+   *          validated (`undefined` values are considered not set).
+   *          If keys are given, unknown keys are reported
+   *          (i.e.: typos), except the ones with `undefined` values
+   */
+  #checkObject(
+    value: unknown,
+    path: string,
+    keys?: string[],
+  ): value is Record<string, unknown> {
+    if (value === undefined) {
+      return false
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.#addIssue(path, 'Must be an object.')
+      return false
+    }
+
+    if (keys) {
+      for (const key in value) {
+        if (
+          !keys.includes(key) &&
+          (value as Record<string, unknown>)[key] !== undefined
+        ) {
+          this.#addIssue(
+            path === 'config' ? key : `${path}.${key}`,
+            'Unknown key.',
+          )
+        }
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Check number
+   *
+   * @param   {unknown}                                                                  value
+   * @param   {string}                                                                   path
+   * @param   {{min?: number; max?: number; isExclusiveMin?: boolean; isInteger?: boolean}} range
+   * @returns {void}
+   */
+  #checkNumber(value: unknown, path: string, range: NumberRange = {}): void {
+    if (value === undefined) {
+      return
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.#addIssue(path, 'Must be a finite number.')
+    } else if (range.isInteger && !Number.isInteger(value)) {
+      this.#addIssue(path, 'Must be an integer.')
+    } else if (
+      range.min !== undefined &&
+      (range.isExclusiveMin ? value <= range.min : value < range.min)
+    ) {
+      this.#addIssue(
+        path,
+        `Must be ${range.isExclusiveMin ? 'greater than' : 'at least'} ${
+          range.min
+        }.`,
+      )
+    } else if (range.max !== undefined && value > range.max) {
+      this.#addIssue(path, `Must be at most ${range.max}.`)
+    }
+  }
+
+  /**
+   * Check that a minimum value is not greater than a maximum value
+   *
+   * @param   {Record<string, unknown>} value
+   * @param   {string}                  minKey
+   * @param   {string}                  maxKey
+   * @param   {string}                  path
+   * @returns {void}
+   */
+  #checkOrder(
+    value: Record<string, unknown>,
+    minKey: string,
+    maxKey: string,
+    path: string,
+  ): void {
+    const min = value[minKey]
+    const max = value[maxKey]
+    if (typeof min === 'number' && typeof max === 'number' && min > max) {
+      this.#addIssue(
+        `${path}.${minKey}`,
+        `Must not be greater than \`${maxKey}\`.`,
+      )
+    }
+  }
+
+  /**
+   * Check string
+   *
+   * @param   {unknown} value
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #checkString(value: unknown, path: string): void {
+    if (value !== undefined && typeof value !== 'string') {
+      this.#addIssue(path, 'Must be a string.')
+    }
+  }
+
+  /**
+   * Check list of non-empty strings
+   *
+   * @param   {unknown} value
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #checkStringArray(value: unknown, path: string): void {
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) ||
+        value.some((item) => typeof item !== 'string' || item === ''))
+    ) {
+      this.#addIssue(path, 'Must be a list of non-empty strings.')
+    }
+  }
+
+  /**
+   * Check color
+   *
+   * @param   {unknown} value
+   * @param   {string}  path
+   * @returns {void}
+   * @note    Colors can be CSS color strings or hexadecimal numbers
+   */
+  #checkColor(value: unknown, path: string): void {
+    if (
+      value !== undefined &&
+      !(typeof value === 'string' && value !== '') &&
+      !(
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= 0 &&
+        value <= 0xffffff
+      )
+    ) {
+      this.#addIssue(
+        path,
+        'Must be a CSS color string or a hexadecimal number.',
+      )
+    }
+  }
+
+  /**
+   * Check model input
+   *
+   * @param   {unknown} value
+   * @param   {string}  path
+   * @returns {void}
+   * @note    Models can be URLs or in-memory models
+   *          (model files, geometries, scenes or raw point data).
+   *          Point colors must be RGB or RGBA
+   */
+  #checkModelInput(value: unknown, path: string): void {
+    if (value === undefined) {
+      this.#addIssue(path, 'Is required.')
+      return
+    }
+
+    if (
+      (typeof value === 'string' && value !== '') ||
+      value instanceof ArrayBuffer ||
+      (typeof Blob !== 'undefined' && value instanceof Blob)
+    ) {
+      return
+    }
+
+    const model = Object(value) as Record<string, unknown>
+    if (model.isBufferGeometry || model.isObject3D) {
+      return
+    }
+
+    if (!(model.positions instanceof Float32Array)) {
+      this.#addIssue(
+        path,
+        'Must be a URL, a file, a geometry, an object or point data.',
+      )
+      return
+    }
+
+    const count = model.positions.length / 3
+    if (!Number.isInteger(count)) {
+      this.#addIssue(
+        `${path}.positions`,
+        'Must have three components per point.',
+      )
+    }
+
+    if (
+      model.colors !== undefined &&
+      (!(model.colors instanceof Float32Array) ||
+        (model.colors.length !== count * 3 &&
+          model.colors.length !== count * 4))
+    ) {
+      this.#addIssue(
+        `${path}.colors`,
+        'Must be a Float32Array with three or four components per point.',
+      )
+    }
+  }
+
+  /**
+   * Check boolean
+   *
+   * @param   {unknown} value
+   * @param   {string}  path
+   * @returns {void}
+   */
+  #checkBoolean(value: unknown, path: string): void {
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.#addIssue(path, 'Must be a boolean.')
+    }
+  }
+
+  /**
+   * Check that a value is one of the allowed values
+   *
+   * @param   {unknown}  value
+   * @param   {string}   path
+   * @param   {string[]} values
+   * @returns {void}
+   */
+  #checkEnum(value: unknown, path: string, values: string[]): void {
+    if (value !== undefined && !values.includes(value as string)) {
+      this.#addIssue(
+        path,
+        `Must be one of: ${values.map((v) => `\`${v}\``).join(', ')}.`,
+      )
+    }
+  }
+
+  /**
+   * Add issue
+   *
+   * @param   {string} path
+   * @param   {string} message
+   * @returns {void}
+   */
+  #addIssue(path: string, message: string): void {
+    this.#issues.push({path: path, message: message})
+  }
+}
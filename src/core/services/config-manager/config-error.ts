@@ -0,0 +1,31 @@
+/**
+ * @description Config error
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Error thrown when the configuration is not valid.
+ *              It contains every problem found, with the path of the
+ *              related configuration value (i.e.: `models.769.width`)
+ */
+import type {ConfigIssue} from '../../types'
+
+export default class ConfigError extends Error {
+  /**
+   * @type {{path: string; message: string}[]}
+   */
+  readonly issues: ConfigIssue[]
+
+  /**
+   * Constructor
+   *
+   * @param {{path: string; message: string}[]} issues
+   */
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration:\n${issues
+        .map((issue) => `- ${issue.path}: ${issue.message}`)
+        .join('\n')}`,
+    )
+
+    this.name = 'ConfigError'
+    this.issues = issues
+  }
+}
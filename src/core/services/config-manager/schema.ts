@@ -0,0 +1,189 @@
+/**
+ * @description Config JSON Schema
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        JSON Schema of the configuration, that can be used by
+ *              editor tooling (i.e.: autocomplete and validation of
+ *              configuration files).
+ *              Only JSON values are described, so `container` can only
+ *              be a selector
+ * {@link       https://json-schema.org/}
+ */
+
+/**
+ * @constant
+ * @type {object}
+ */
+const POSITIVE_NUMBER: object = {type: 'number', exclusiveMinimum: 0}
+
+/**
+ * @constant
+ * @type {object}
+ */
+const NON_NEGATIVE_NUMBER: object = {type: 'number', minimum: 0}
+
+/**
+ * @constant
+ * @type {object}
+ */
+const MODEL_SIZE: object = {
+  oneOf: [POSITIVE_NUMBER, {const: 'container'}],
+}
+
+/**
+ * @constant
+ * @type {object}
+ */
+const MODEL_SCHEMA: object = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['src', 'width', 'height'],
+  properties: {
+    src: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['highPoly'],
+      properties: {
+        highPoly: {type: 'string', minLength: 1},
+        lowPoly: {type: 'string', minLength: 1},
+        proxyTriangles: {type: 'integer', minimum: 1},
+        meshes: {
+          type: 'array',
+          items: {type: 'string', minLength: 1},
+        },
+        format: {enum: ['gltf', 'glb', 'ply', 'pcd', 'obj', 'stl']},
+      },
+    },
+    width: MODEL_SIZE,
+    height: MODEL_SIZE,
+    camera: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        position: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['x', 'y', 'z'],
+          properties: {
+            x: {type: 'number'},
+            y: {type: 'number'},
+            z: {type: 'number'},
+          },
+        },
+        fov: {type: 'number', exclusiveMinimum: 0, maximum: 180},
+        near: POSITIVE_NUMBER,
+        far: POSITIVE_NUMBER,
+        isControlsEnabled: {type: 'boolean'},
+      },
+    },
+    point: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        size: POSITIVE_NUMBER,
+        motion: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            frequency: NON_NEGATIVE_NUMBER,
+            strength: NON_NEGATIVE_NUMBER,
+            ratio: {type: 'number', minimum: 0, maximum: 1},
+            lifeDecay: NON_NEGATIVE_NUMBER,
+          },
+        },
+        sampling: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            mode: {enum: ['vertices', 'surface']},
+            count: {type: 'integer', minimum: 1},
+          },
+        },
+        color: {
+          oneOf: [
+            {type: 'string', minLength: 1},
+            {type: 'integer', minimum: 0, maximum: 0xffffff},
+          ],
+        },
+      },
+    },
+  },
+}
+
+/**
+ * @constant
+ * @type {object}
+ */
+export const configSchema: object = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Thr2Pxl configuration',
+  type: 'object',
+  additionalProperties: false,
+  required: ['models'],
+  properties: {
+    container: {type: 'string'},
+    containerSelector: {type: 'string', deprecated: true},
+    models: {
+      type: 'object',
+      required: ['0'],
+      additionalProperties: false,
+      patternProperties: {
+        '^\\d+$': MODEL_SCHEMA,
+      },
+    },
+    loader: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        dracoUrl: {type: 'string'},
+        ktx2TranscoderUrl: {type: 'string'},
+        meshopt: {type: 'boolean'},
+      },
+    },
+    renderer: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        isShared: {type: 'boolean'},
+      },
+    },
+    pointer: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        strength: NON_NEGATIVE_NUMBER,
+        minRad: NON_NEGATIVE_NUMBER,
+        maxRad: NON_NEGATIVE_NUMBER,
+        pulseStrength: NON_NEGATIVE_NUMBER,
+        pulseFrequency: NON_NEGATIVE_NUMBER,
+      },
+    },
+    quality: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        targetFps: POSITIVE_NUMBER,
+        minDpr: POSITIVE_NUMBER,
+        maxDpr: POSITIVE_NUMBER,
+      },
+    },
+    seed: {type: 'number'},
+    clock: {enum: ['auto', 'manual']},
+    fixedTimeStep: POSITIVE_NUMBER,
+    maxSubSteps: {type: 'integer', minimum: 1},
+    validation: {enum: ['strict', 'lenient']},
+    debug: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        hotkey: {
+          oneOf: [{type: 'string', minLength: 1}, {const: false}],
+        },
+        enabled: {
+          oneOf: [{type: 'boolean'}, {const: 'url-param'}],
+        },
+      },
+    },
+    isDebugging: {type: 'boolean'},
+    autoPause: {type: 'boolean'},
+  },
+}
@@ -5,9 +5,32 @@
  *              debug management logic
  */
 import {Pane} from 'tweakpane'
-import type {BindingParams, FolderParams, FolderApi} from 'tweakpane'
+import type {BindingParams, ButtonApi, FolderParams, FolderApi} from 'tweakpane'
 import {BindingApi} from '@tweakpane/core'
-import {getSettings} from './debug-manager/copy/settings.js'
+import {
+  deletePreset,
+  getPresets,
+  savePreset,
+} from './debug-manager/preset/storage.js'
+import {checkSerializable} from './debug-manager/config/export.js'
+import ConfigError from './config-manager/config-error.js'
+import type {Config} from '../types'
+import type {Stats} from './stats-manager.js'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Time (in milliseconds) that feedback is shown
+ */
+const FEEDBACK_DURATION: number = 1000
+
+/**
+ * @constant
+ * @type {number}
+ * @note Time (in milliseconds) that error feedback is shown.
+ *       It is longer, so the error message can be read
+ */
+const ERROR_FEEDBACK_DURATION: number = 4000
 
 export default class DebugManager {
   /**
@@ -15,12 +38,45 @@ export default class DebugManager {
    */
   debugger: Pane
 
+  /**
+   * @type {FolderApi[]}
+   * @note Folders added by the app.
+   *       They are tracked, so they can be removed when the app
+   *       entities are replaced (i.e.: on breakpoint change)
+   */
+  #folders: FolderApi[] = []
+
+  /**
+   * @type {FolderApi | null}
+   */
+  #presetList: FolderApi | null = null
+
+  /**
+   * @type {() => Config}
+   */
+  readonly #onExport: () => Config
+
+  /**
+   * @type {(config: Config) => void}
+   */
+  readonly #onImport: (config: Config) => void
+
   /**
    * Constructor
+   *
+   * @param {() => Config}             onExport
+   * @param {(config: Config) => void} onImport
+   * @note  Export/import handlers are used to get the current
+   *        configuration of the effect and to apply a configuration to it
    */
-  constructor() {
+  constructor(onExport: () => Config, onImport: (config: Config) => void) {
+    this.#onExport = onExport
+    this.#onImport = onImport
+
     this.debugger = new Pane()
     this.#addCopyButton()
+    this.#addPasteButton()
+    this.#addPresetFolder()
   }
 
   /**
@@ -59,7 +115,73 @@ export default class DebugManager {
    */
   addFolder(config: FolderParams): FolderApi {
     config = {expanded: false, ...config}
-    return this.debugger.addFolder(config)
+    const folder = this.debugger.addFolder(config)
+    this.#folders.push(folder)
+
+    return folder
+  }
+
+  /**
+   * Clear. Remove the folders added by the app
+   *
+   * @returns {void}
+   */
+  clear(): void {
+    for (const folder of this.#folders) {
+      folder.dispose()
+    }
+    this.#folders = []
+  }
+
+  /**
+   * Add stats folder
+   *
+   * @param   {Stats} stats
+   * @returns {void}
+   * @note    Stats are shown with monitors (readonly bindings),
+   *          so they are refreshed periodically.
+   *          This folder is not tracked with the app folders,
+   *          so it is kept when the app entities are replaced
+   */
+  addStatsFolder(stats: Stats): void {
+    const folder = this.debugger.addFolder({title: 'Stats', expanded: false})
+    const format =
+      (digits: number, unit: string = '') =>
+      (value: number): string =>
+        value < 0 ? 'n/a' : `${value.toFixed(digits)}${unit}`
+
+    folder.addBinding(stats, 'fps', {readonly: true, format: format(0)})
+    folder.addBinding(stats, 'frameTime', {
+      label: 'frame-time',
+      readonly: true,
+      view: 'graph',
+      min: 0,
+      max: 50,
+    })
+    folder.addBinding(stats, 'frameTime', {
+      label: '',
+      readonly: true,
+      format: format(2, ' ms'),
+    })
+
+    const bindings: [keyof Stats, string, (value: number) => string][] = [
+      ['computeTime', 'compute-time', format(2, ' ms')],
+      ['gpuComputeTime', 'gpu-compute-time', format(2, ' ms')],
+      ['gpuRenderTime', 'gpu-render-time', format(2, ' ms')],
+      ['drawCalls', 'draw-calls', format(0)],
+      ['geometries', 'geometries', format(0)],
+      ['textures', 'textures', format(0)],
+      ['points', 'points', format(0)],
+      ['textureSize', 'texture-size', format(0, ' px')],
+      ['memory', 'memory', format(2, ' MB')],
+    ]
+    for (const [key, label, formatter] of bindings) {
+      folder.addBinding(stats, key, {
+        label: label,
+        readonly: true,
+        format: formatter,
+      })
+    }
   }
 
   /**
@@ -120,55 +242,173 @@ export default class DebugManager {
    * Add copy button
    *
    * @returns {void}
+   * @note    Current configuration is copied to the clipboard as JSON
    */
   #addCopyButton(): void {
     const btn = this.debugger.addButton({
       title: 'Copy',
     })
     btn.on('click', () => {
-      const state = this.debugger.exportState()
-
-      if (state.children && state.children instanceof Array) {
-        const pointer = state.children[1]
-        const pointerStrength = pointer.children[0]['binding']['value']
-        const pointerMinRad = pointer.children[1]['binding']['value']
-        const pointerMaxRad = pointer.children[2]['binding']['value']
-        const pointerPulseStrength = pointer.children[3]['binding']['value']
-        const pointerPulseFrequency = pointer.children[4]['binding']['value']
-
-        const modelPoint = state.children[2]
-        const modelPointSize = modelPoint.children[0]['binding']['value']
-
-        const modelPointMotion = state.children[3]
-        const modelPointMotionFrequency =
-          modelPointMotion.children[0]['binding']['value']
-        const modelPointMotionStrength =
-          modelPointMotion.children[1]['binding']['value']
-        const modelPointMotionRatio =
-          modelPointMotion.children[2]['binding']['value']
-        const modelPointMotionPointLifeDecay =
-          modelPointMotion.children[3]['binding']['value']
-
-        const settings = getSettings(
-          modelPointSize,
-          modelPointMotionFrequency,
-          modelPointMotionStrength,
-          modelPointMotionRatio,
-          modelPointMotionPointLifeDecay,
-          pointerStrength,
-          pointerMinRad,
-          pointerMaxRad,
-          pointerPulseStrength,
-          pointerPulseFrequency,
-        )
-
-        navigator.clipboard.writeText(settings).then(() => {
-          btn.title = 'Copied!'
-          setTimeout(() => {
-            btn.title = 'Copy'
-          }, 1000)
-        })
+      let config: string
+      try {
+        config = JSON.stringify(this.#exportConfig(), null, 2)
+      } catch (error) {
+        this.#showErrorFeedback(btn, error)
+        return
       }
+
+      navigator.clipboard
+        .writeText(config)
+        .then(() => this.#showFeedback(btn, 'Copied!'))
+        .catch(() => this.#showFeedback(btn, 'Not copied!'))
+    })
+  }
+
+  /**
+   * Add paste button
+   *
+   * @returns {void}
+   * @note    Configuration (JSON) is read from the clipboard,
+   *          and it is applied to the effect
+   */
+  #addPasteButton(): void {
+    const btn = this.debugger.addButton({
+      title: 'Paste',
     })
+    btn.on('click', () => {
+      navigator.clipboard
+        .readText()
+        .then((text) => this.#onImport(JSON.parse(text)))
+        .then(() => this.#showFeedback(btn, 'Pasted!'))
+        .catch((error) => this.#showErrorFeedback(btn, error))
+    })
+  }
+
+  /**
+   * Add presets folder
+   *
+   * @returns {void}
+   * @note    This folder is not tracked with the app folders,
+   *          so it is kept when the app entities are replaced
+   */
+  #addPresetFolder(): void {
+    const folder = this.debugger.addFolder({title: 'Presets', expanded: false})
+    const preset = {name: ''}
+
+    folder.addBinding(preset, 'name')
+    const saveBtn = folder.addButton({title: 'Save'})
+    saveBtn.on('click', () => {
+      if (preset.name) {
+        try {
+          savePreset(preset.name, this.#exportConfig())
+          this.#refreshPresetList(folder)
+        } catch (error) {
+          this.#showErrorFeedback(saveBtn, error)
+        }
+      }
+    })
+
+    this.#refreshPresetList(folder)
+  }
+
+  /**
+   * Refresh preset list
+   *
+   * @param   {FolderApi} folder
+   * @returns {void}
+   * @note    List is re-created, because Tweakpane list options
+   *          can not be changed once the binding is created
+   */
+  #refreshPresetList(folder: FolderApi): void {
+    this.#presetList?.dispose()
+
+    const presets = getPresets()
+    const names = Object.keys(presets)
+    const selection = {preset: names[0] ?? ''}
+    const list = folder.addFolder({title: 'Saved', expanded: true})
+    this.#presetList = list
+
+    if (!names.length) {
+      return
+    }
+
+    list.addBinding(selection, 'preset', {
+      options: Object.fromEntries(names.map((name) => [name, name])),
+    })
+    const loadBtn = list.addButton({title: 'Load'})
+    loadBtn.on('click', () => {
+      const config = getPresets()[selection.preset]
+      if (config) {
+        try {
+          this.#onImport(config)
+          this.#showFeedback(loadBtn, 'Loaded!')
+        } catch (error) {
+          this.#showErrorFeedback(loadBtn, error)
+        }
+      }
+    })
+    list.addButton({title: 'Delete'}).on('click', () => {
+      deletePreset(selection.preset)
+      this.#refreshPresetList(folder)
+    })
+  }
+
+  /**
+   * Export the current configuration
+   *
+   * @returns {Config}
+   * @throws  ConfigError
+   * @note    Configurations with in-memory models are not exported,
+   *          because they can not be serialized
+   */
+  #exportConfig(): Config {
+    const config = this.#onExport()
+    checkSerializable(config)
+
+    return config
+  }
+
+  /**
+   * Show feedback in a button title
+   *
+   * @param   {ButtonApi} btn
+   * @param   {string}    title
+   * @param   {number}    duration
+   * @returns {void}
+   */
+  #showFeedback(
+    btn: ButtonApi,
+    title: string,
+    duration: number = FEEDBACK_DURATION,
+  ): void {
+    const defaultTitle = btn.title
+    btn.title = title
+    setTimeout(() => {
+      btn.title = defaultTitle
+    }, duration)
+  }
+
+  /**
+   * Show error feedback in a button title
+   *
+   * @param   {ButtonApi} btn
+   * @param   {unknown}   error
+   * @returns {void}
+   * @note    For configuration errors, the first issue is shown
+   *          (with the number of remaining issues)
+   */
+  #showErrorFeedback(btn: ButtonApi, error: unknown): void {
+    let title = 'Invalid config!'
+    if (error instanceof ConfigError && error.issues.length) {
+      const [issue, ...issues] = error.issues
+      title = `${issue.path}: ${issue.message}`
+      if (issues.length) {
+        title += ` (+${issues.length} more)`
+      }
+    } else if (error instanceof Error && error.message) {
+      title = error.message
+    }
+
+    this.#showFeedback(btn, title, ERROR_FEEDBACK_DURATION)
   }
 }
@@ -0,0 +1,54 @@
+/**
+ * @description Debug manager config export tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import * as THREE from 'three'
+import {describe, expect, it} from 'vitest'
+import {checkSerializable} from './export.js'
+import ConfigError from '../../config-manager/config-error.js'
+import type {Config, ModelInput} from '../../../types'
+
+/**
+ * Create configuration
+ *
+ * @param   {ModelInput} highPoly
+ * @param   {ModelInput} lowPoly
+ * @returns {Config}
+ */
+const createConfig = (highPoly: ModelInput, lowPoly?: ModelInput): Config => ({
+  models: {
+    0: {src: {highPoly: '/models/high-poly.glb'}, width: 1, height: 1},
+    768: {src: {highPoly: highPoly, lowPoly: lowPoly}, width: 1, height: 1},
+  },
+})
+
+describe('checkSerializable', () => {
+  it('accepts model URLs', () => {
+    expect(() =>
+      checkSerializable(createConfig('/model.glb', '/low-poly.glb')),
+    ).not.toThrow()
+  })
+
+  it('rejects in-memory models with their paths', () => {
+    let error: unknown = null
+    try {
+      checkSerializable(
+        createConfig(new ArrayBuffer(8), new THREE.BoxGeometry()),
+      )
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(ConfigError)
+    expect((error as ConfigError).issues).toEqual([
+      {
+        path: 'models.768.src.highPoly',
+        message: 'In-memory models can not be exported.',
+      },
+      {
+        path: 'models.768.src.lowPoly',
+        message: 'In-memory models can not be exported.',
+      },
+    ])
+  })
+})
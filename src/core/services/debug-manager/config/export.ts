@@ -0,0 +1,35 @@
+/**
+ * @description Debug manager config export
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Configurations are serialized as JSON to be copied
+ *              or saved as presets, but in-memory models (files,
+ *              geometries, scenes or point data) can not be serialized
+ *              (they would be exported as invalid model sources)
+ */
+import ConfigError from '../../config-manager/config-error.js'
+import type {Config, ConfigIssue} from '../../../types'
+
+/**
+ * Check that a configuration can be serialized
+ *
+ * @param   {Config} config
+ * @returns {void}
+ * @throws  ConfigError
+ */
+export const checkSerializable = (config: Config): void => {
+  const issues: ConfigIssue[] = []
+  for (const [breakpoint, {src}] of Object.entries(config.models)) {
+    for (const key of ['highPoly', 'lowPoly'] as const) {
+      if (src[key] !== undefined && typeof src[key] !== 'string') {
+        issues.push({
+          path: `models.${breakpoint}.src.${key}`,
+          message: 'In-memory models can not be exported.',
+        })
+      }
+    }
+  }
+
+  if (issues.length) {
+    throw new ConfigError(issues)
+  }
+}
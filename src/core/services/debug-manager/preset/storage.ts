@@ -0,0 +1,67 @@
+/**
+ * @description Debug manager preset storage
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Named presets (configurations) are saved in the
+ *              `localStorage`, so they persist between page loads.
+ *              If the storage is not available (i.e.: private mode),
+ *              presets are not persisted
+ */
+import type {Config} from '../../../types'
+
+/**
+ * @constant
+ * @type {string}
+ */
+const STORAGE_KEY: string = 'thr2pxl:presets'
+
+/**
+ * Get presets
+ *
+ * @returns {Record<string, Config>}
+ */
+export const getPresets = (): Record<string, Config> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Save preset
+ *
+ * @param   {string} name
+ * @param   {Config} config
+ * @returns {void}
+ */
+export const savePreset = (name: string, config: Config): void => {
+  setPresets({...getPresets(), [name]: config})
+}
+
+/**
+ * Delete preset
+ *
+ * @param   {string} name
+ * @returns {void}
+ */
+export const deletePreset = (name: string): void => {
+  const presets = getPresets()
+  delete presets[name]
+  setPresets(presets)
+}
+
+/**
+ * Set presets
+ *
+ * @param   {Record<string, Config>} presets
+ * @returns {void}
+ */
+const setPresets = (presets: Record<string, Config>): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch {
+    /**
+     * @note Storage is not available or it is full
+     */
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * @description Event manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {describe, expect, it, vi} from 'vitest'
+import EventManager from './event-manager.js'
+
+/**
+ * @note Events used by the tests
+ */
+interface TestEvents {
+  load: {progress: number}
+  error: {error: Error}
+}
+
+describe('EventManager', () => {
+  it('emits the payload to the listeners of the event type', () => {
+    const eventManager = new EventManager<TestEvents>()
+    const onLoad = vi.fn()
+    const onError = vi.fn()
+    eventManager.on('load', onLoad)
+    eventManager.on('error', onError)
+    eventManager.emit('load', {progress: 1})
+
+    expect(onLoad).toHaveBeenCalledExactlyOnceWith({progress: 1})
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('removes listeners', () => {
+    const eventManager = new EventManager<TestEvents>()
+    const onLoad = vi.fn()
+    const onOtherLoad = vi.fn()
+    const off = eventManager.on('load', onLoad)
+    eventManager.on('load', onOtherLoad)
+    off()
+    eventManager.off('load', onOtherLoad)
+    eventManager.emit('load', {progress: 1})
+
+    expect(onLoad).not.toHaveBeenCalled()
+    expect(onOtherLoad).not.toHaveBeenCalled()
+    expect(eventManager.has('load')).toBe(false)
+  })
+
+  it('executes once listeners only once', () => {
+    const eventManager = new EventManager<TestEvents>()
+    const onLoad = vi.fn()
+    eventManager.once('load', onLoad)
+    eventManager.emit('load', {progress: 0.5})
+    eventManager.emit('load', {progress: 1})
+
+    expect(onLoad).toHaveBeenCalledExactlyOnceWith({progress: 0.5})
+  })
+
+  it('executes every listener when one removes itself', () => {
+    const eventManager = new EventManager<TestEvents>()
+    const onLoad = vi.fn()
+    eventManager.once('load', vi.fn())
+    eventManager.on('load', onLoad)
+    eventManager.emit('load', {progress: 1})
+
+    expect(onLoad).toHaveBeenCalledOnce()
+  })
+
+  it('checks if there are listeners', () => {
+    const eventManager = new EventManager<TestEvents>()
+    eventManager.on('error', vi.fn())
+
+    expect(eventManager.has('error')).toBe(true)
+    expect(eventManager.has('load')).toBe(false)
+
+    eventManager.dispose()
+    expect(eventManager.has('error')).toBe(false)
+  })
+})
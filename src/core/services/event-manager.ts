@@ -0,0 +1,103 @@
+/**
+ * @description Event manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              event management logic.
+ *              It works as a typed event emitter, where the event map
+ *              defines the payload that each event type dispatches
+ */
+export default class EventManager<T extends object> {
+  /**
+   * @type {Map<keyof T, Set<(payload: any) => void>>}
+   */
+  #listeners: Map<keyof T, Set<(payload: T[keyof T]) => void>> = new Map()
+
+  /**
+   * Add listener
+   *
+   * @param   {string}                 type
+   * @param   {(payload: any) => void} listener
+   * @returns {() => void}
+   * @note    It is returned a function that removes the added listener
+   */
+  on<K extends keyof T>(
+    type: K,
+    listener: (payload: T[K]) => void,
+  ): () => void {
+    let listeners = this.#listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.#listeners.set(type, listeners)
+    }
+    listeners.add(listener as (payload: T[keyof T]) => void)
+
+    return () => this.off(type, listener)
+  }
+
+  /**
+   * Add listener that is executed only once
+   *
+   * @param   {string}                 type
+   * @param   {(payload: any) => void} listener
+   * @returns {() => void}
+   */
+  once<K extends keyof T>(
+    type: K,
+    listener: (payload: T[K]) => void,
+  ): () => void {
+    const off = this.on(type, (payload) => {
+      off()
+      listener(payload)
+    })
+
+    return off
+  }
+
+  /**
+   * Remove listener
+   *
+   * @param   {string}                 type
+   * @param   {(payload: any) => void} listener
+   * @returns {void}
+   */
+  off<K extends keyof T>(type: K, listener: (payload: T[K]) => void): void {
+    this.#listeners.get(type)?.delete(listener as (payload: T[keyof T]) => void)
+  }
+
+  /**
+   * Check if there are listeners for the given event type
+   *
+   * @param   {string} type
+   * @returns {boolean}
+   */
+  has(type: keyof T): boolean {
+    return (this.#listeners.get(type)?.size ?? 0) > 0
+  }
+
+  /**
+   * Emit event
+   *
+   * @param   {string} type
+   * @param   {any}    payload
+   * @returns {void}
+   * @note    Listeners are copied before being executed,
+   *          so a listener can remove itself safely
+   */
+  emit<K extends keyof T>(type: K, payload: T[K]): void {
+    const listeners = this.#listeners.get(type)
+    if (listeners) {
+      for (const listener of [...listeners]) {
+        listener(payload)
+      }
+    }
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#listeners.clear()
+  }
+}
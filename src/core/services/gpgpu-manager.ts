@@ -71,6 +71,17 @@ export default class GpGpuManager {
     return [gpGpu, gpGpuVar]
   }
 
+  /**
+   * Get texture size
+   *
+   * @param   {number} texelCount
+   * @returns {number}
+   * @note    GPGPU textures are squares that fit the given number of texels
+   */
+  getTextureSize(texelCount: number): number {
+    return Math.ceil(Math.sqrt(texelCount))
+  }
+
   /**
    * Create GPGPU variable
    *
@@ -116,7 +127,7 @@ export default class GpGpuManager {
    */
   #createGpGpuRenderer(texelData: THREE.TypedArray): GPUComputationRenderer {
     const texelCount = texelData.length / TEXEL_GROUP_SIZE
-    const size = Math.ceil(Math.sqrt(texelCount))
+    const size = this.getTextureSize(texelCount)
 
     return new GPUComputationRenderer(
       size,
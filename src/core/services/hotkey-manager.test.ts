@@ -0,0 +1,49 @@
+/**
+ * @description Hotkey manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {describe, expect, it} from 'vitest'
+import HotkeyManager from './hotkey-manager.js'
+
+describe('HotkeyManager.parse', () => {
+  it('parses a key combination', () => {
+    expect(HotkeyManager.parse('shift+alt+d')).toEqual({
+      key: 'd',
+      shift: true,
+      alt: true,
+      ctrl: false,
+      meta: false,
+    })
+  })
+
+  it('parses a single key', () => {
+    expect(HotkeyManager.parse('F2')).toEqual({
+      key: 'f2',
+      shift: false,
+      alt: false,
+      ctrl: false,
+      meta: false,
+    })
+  })
+
+  it('ignores case and whitespaces', () => {
+    expect(HotkeyManager.parse(' Ctrl + Meta + K ')).toEqual({
+      key: 'k',
+      shift: false,
+      alt: false,
+      ctrl: true,
+      meta: true,
+    })
+  })
+
+  it('rejects combinations without a key', () => {
+    expect(HotkeyManager.parse('')).toBeNull()
+    expect(HotkeyManager.parse('shift+alt')).toBeNull()
+    expect(HotkeyManager.parse('shift+')).toBeNull()
+  })
+
+  it('rejects unknown modifiers', () => {
+    expect(HotkeyManager.parse('super+d')).toBeNull()
+    expect(HotkeyManager.parse('shift++d')).toBeNull()
+  })
+})
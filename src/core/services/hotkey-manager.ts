@@ -0,0 +1,165 @@
+/**
+ * @description Hotkey manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              logic used to listen for a key combination
+ *              (i.e.: `shift+alt+d`).
+ *              Key events dispatched from editable elements are ignored,
+ *              so typing in a form field of the page does not trigger it
+ */
+
+/**
+ * @constant
+ * @type {string[]}
+ */
+const MODIFIERS: string[] = ['shift', 'alt', 'ctrl', 'meta']
+
+/**
+ * @note Parsed key combination
+ */
+export interface Hotkey {
+  key: string
+  shift: boolean
+  alt: boolean
+  ctrl: boolean
+  meta: boolean
+}
+
+export default class HotkeyManager {
+  /**
+   * @type {Hotkey}
+   */
+  readonly #hotkey: Hotkey
+
+  /**
+   * @type {(e: KeyboardEvent) => void}
+   */
+  readonly #onPress: (e: KeyboardEvent) => void
+
+  /**
+   * @type {(e: KeyboardEvent) => void}
+   */
+  #boundHandleKeyDown: (e: KeyboardEvent) => void
+
+  /**
+   * Constructor
+   *
+   * @param {string}                     hotkey
+   * @param {(e: KeyboardEvent) => void} onPress
+   * @throws Error
+   */
+  constructor(hotkey: string, onPress: (e: KeyboardEvent) => void) {
+    const parsedHotkey = HotkeyManager.parse(hotkey)
+    if (!parsedHotkey) {
+      throw new Error(`Hotkey "${hotkey}" is not valid.`)
+    }
+
+    this.#hotkey = parsedHotkey
+    this.#onPress = onPress
+
+    this.#boundHandleKeyDown = this.#handleKeyDown.bind(this)
+    document.addEventListener('keydown', this.#boundHandleKeyDown)
+  }
+
+  /**
+   * Parse key combination
+   *
+   * @param   {string}        hotkey
+   * @returns {Hotkey | null}
+   * @note    Modifiers and key are separated by `+`.
+   *          The key must be the last part of the combination.
+   *          If the combination is not valid, `null` is returned
+   */
+  static parse(hotkey: string): Hotkey | null {
+    const parts = hotkey.toLowerCase().split('+')
+    const key = parts.pop()?.trim()
+    if (!key || MODIFIERS.includes(key)) {
+      return null
+    }
+
+    const parsedHotkey: Hotkey = {
+      key: key,
+      shift: false,
+      alt: false,
+      ctrl: false,
+      meta: false,
+    }
+    for (const part of parts) {
+      const modifier = part.trim()
+      if (!MODIFIERS.includes(modifier)) {
+        return null
+      }
+
+      parsedHotkey[modifier as 'shift' | 'alt' | 'ctrl' | 'meta'] = true
+    }
+
+    return parsedHotkey
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    document.removeEventListener('keydown', this.#boundHandleKeyDown)
+  }
+
+  /**
+   * Handle key down
+   *
+   * @param   {KeyboardEvent} e
+   * @returns {void}
+   */
+  #handleKeyDown(e: KeyboardEvent): void {
+    if (!e.repeat && !this.#isEditable(e.target) && this.#matches(e)) {
+      this.#onPress(e)
+    }
+  }
+
+  /**
+   * Check if the key event matches the key combination
+   *
+   * @param   {KeyboardEvent} e
+   * @returns {boolean}
+   * @note    Modifiers can change the produced character
+   *          (i.e.: `alt+d` produces `∂` on macOS), so the physical key
+   *          is also checked for letters and digits
+   */
+  #matches(e: KeyboardEvent): boolean {
+    if (
+      e.shiftKey !== this.#hotkey.shift ||
+      e.altKey !== this.#hotkey.alt ||
+      e.ctrlKey !== this.#hotkey.ctrl ||
+      e.metaKey !== this.#hotkey.meta
+    ) {
+      return false
+    }
+
+    const key = this.#hotkey.key
+    return (
+      e.key.toLowerCase() === key ||
+      e.code === `Key${key.toUpperCase()}` ||
+      e.code === `Digit${key}`
+    )
+  }
+
+  /**
+   * Check if the event target is an editable element
+   *
+   * @param   {EventTarget | null} target
+   * @returns {boolean}
+   */
+  #isEditable(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) {
+      return false
+    }
+
+    return (
+      target.isContentEditable ||
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement
+    )
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * @description Model loader manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {afterEach, describe, expect, it, vi} from 'vitest'
+import {DRACOLoader} from 'three/addons/loaders/DRACOLoader.js'
+import ModelLoaderManager from './model-loader-manager.js'
+import {clearAssetCache} from './model-loader-manager/asset-cache.js'
+
+/**
+ * @constant
+ * @type {string}
+ */
+const MODEL_URL: string = 'http://localhost/model.gltf'
+
+/**
+ * @constant
+ * @type {string}
+ * @note glTF model with an empty scene
+ */
+const MODEL: string = JSON.stringify({
+  asset: {version: '2.0'},
+  scene: 0,
+  scenes: [{nodes: []}],
+})
+
+/**
+ * Mock model request
+ *
+ * @returns {() => void}
+ * @note    It is returned the function that sends the response
+ * @note    Loader notifies the progress of the response with progress
+ *          events, which are not available in Node
+ */
+const mockRequest = (): (() => void) => {
+  let respond: () => void = () => {}
+  vi.stubGlobal(
+    'ProgressEvent',
+    class extends Event {
+      constructor(type: string, init: ProgressEventInit = {}) {
+        super(type)
+        Object.assign(this, init)
+      }
+    },
+  )
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(
+      () =>
+        new Promise<Response>((resolve) => {
+          respond = () => resolve(new Response(MODEL))
+        }),
+    ),
+  )
+
+  return () => respond()
+}
+
+describe('ModelLoaderManager', () => {
+  afterEach(() => {
+    clearAssetCache()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the decoders of pending loads until they are settled', async () => {
+    const dispose = vi.spyOn(DRACOLoader.prototype, 'dispose')
+    const respond = mockRequest()
+    const modelLoaderManager = new ModelLoaderManager('/draco/')
+    const load = modelLoaderManager.preload(MODEL_URL)
+    modelLoaderManager.dispose()
+    await Promise.resolve()
+
+    expect(dispose).not.toHaveBeenCalled()
+
+    const sharedLoad = new ModelLoaderManager('/draco/').preload(MODEL_URL)
+    respond()
+    await load
+    await sharedLoad
+    await vi.waitFor(() => expect(dispose).toHaveBeenCalledOnce())
+  })
+
+  it('disposes the decoders when there are no pending loads', async () => {
+    const dispose = vi.spyOn(DRACOLoader.prototype, 'dispose')
+    new ModelLoaderManager('/draco/').dispose()
+
+    await vi.waitFor(() => expect(dispose).toHaveBeenCalledOnce())
+  })
+})
@@ -2,11 +2,54 @@
  * @description Model loader manager
  * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
  * @note        The idea behind this class is to encapsulate and wrap the
- *              model loader logic
+ *              model loader logic.
+ *              Supported formats are glTF (`.gltf`/`.glb`), PLY, PCD,
+ *              OBJ and STL. Every format is loaded as a scene,
+ *              so all of them are handled in the same way.
+ *              Models can also be in-memory files, geometries, scenes
+ *              or raw point data.
+ *              glTF models can be compressed with Draco or meshopt,
+ *              and they can use KTX2 textures, if the related
+ *              decoders are enabled
  */
 import * as THREE from 'three'
 import {GLTFLoader} from 'three/addons/loaders/GLTFLoader.js'
 import {DRACOLoader} from 'three/addons/loaders/DRACOLoader.js'
+import {KTX2Loader} from 'three/addons/loaders/KTX2Loader.js'
+import {MeshoptDecoder} from 'three/addons/libs/meshopt_decoder.module.js'
+import {PLYLoader} from 'three/addons/loaders/PLYLoader.js'
+import {PCDLoader} from 'three/addons/loaders/PCDLoader.js'
+import {OBJLoader} from 'three/addons/loaders/OBJLoader.js'
+import {STLLoader} from 'three/addons/loaders/STLLoader.js'
+import {
+  getMeshes,
+  getSharedMaterial,
+  mergeMeshes,
+} from './model-loader-manager/mesh-merger.js'
+import {
+  getCachedAsset,
+  getCachedFile,
+} from './model-loader-manager/asset-cache.js'
+import type {
+  ModelFormat,
+  ModelInput,
+  ModelLoadOptions,
+  ModelPointData,
+} from '../types'
+
+/**
+ * @constant
+ * @type {ModelFormat[]}
+ */
+const FORMATS: ModelFormat[] = ['gltf', 'glb', 'ply', 'pcd', 'obj', 'stl']
+
+/**
+ * @constant
+ * @type {ModelFormat}
+ * @note Format used when it can not be inferred from the URL
+ *       or the file name (i.e.: object URLs or unnamed files)
+ */
+const DEFAULT_FORMAT: ModelFormat = 'glb'
 
 export default class ModelLoaderManager {
   /**
@@ -15,62 +58,418 @@ export default class ModelLoaderManager {
   #loader: GLTFLoader
 
   /**
-   * @type {DRACOLoader}
+   * @type {PLYLoader | null}
+   */
+  #plyLoader: PLYLoader | null = null
+
+  /**
+   * @type {PCDLoader | null}
+   */
+  #pcdLoader: PCDLoader | null = null
+
+  /**
+   * @type {OBJLoader | null}
    */
-  #dracoLoader: DRACOLoader
+  #objLoader: OBJLoader | null = null
+
+  /**
+   * @type {STLLoader | null}
+   */
+  #stlLoader: STLLoader | null = null
+
+  /**
+   * @type {THREE.FileLoader}
+   * @note Model files are fetched as binary data,
+   *       so URLs and in-memory files are parsed in the same way
+   */
+  readonly #fileLoader: THREE.FileLoader =
+    new THREE.FileLoader().setResponseType('arraybuffer')
+
+  /**
+   * @type {DRACOLoader | null}
+   */
+  #dracoLoader: DRACOLoader | null = null
+
+  /**
+   * @type {KTX2Loader | null}
+   */
+  #ktx2Loader: KTX2Loader | null = null
 
   /**
    * @type {string | null}
    */
   readonly #dracoPath: string | null = null
 
+  /**
+   * @type {string | null}
+   */
+  readonly #ktx2TranscoderPath: string | null = null
+
+  /**
+   * @type {boolean}
+   */
+  readonly #isMeshoptEnabled: boolean
+
+  /**
+   * @type {THREE.WebGLRenderer | null}
+   * @note It is used to detect the compressed texture formats
+   *       supported by the device (required by the KTX2 loader)
+   */
+  readonly #renderer: THREE.WebGLRenderer | null
+
+  /**
+   * @type {Set<Promise<THREE.Object3D>>}
+   * @note Loads started by this manager. They are stored in the shared
+   *       asset cache, so other managers can wait for them
+   */
+  readonly #pendingLoads: Set<Promise<THREE.Object3D>> = new Set()
+
   /**
    * Constructor
    *
-   * @param {string | null} dracoPath
+   * @param {string | null}              dracoPath
+   * @param {string | null}              ktx2TranscoderPath
+   * @param {boolean}                    isMeshoptEnabled
+   * @param {THREE.WebGLRenderer | null} renderer
+   * @throws Error
    */
-  constructor(dracoPath: string | null = null) {
+  constructor(
+    dracoPath: string | null = null,
+    ktx2TranscoderPath: string | null = null,
+    isMeshoptEnabled: boolean = false,
+    renderer: THREE.WebGLRenderer | null = null,
+  ) {
     if (dracoPath) {
       this.#dracoPath = dracoPath
     }
 
+    if (ktx2TranscoderPath) {
+      if (!renderer) {
+        throw new Error('KTX2 loader requires a renderer.')
+      }
+
+      this.#ktx2TranscoderPath = ktx2TranscoderPath
+    }
+
+    this.#isMeshoptEnabled = isMeshoptEnabled
+    this.#renderer = renderer
+
     this.#initLoader()
   }
 
   /**
    * Load mesh from the model
    *
-   * @param   {string} url
+   * @param   {ModelInput}                     source
+   * @param   {(event: ProgressEvent) => void} onProgress
+   * @param   {ModelLoadOptions}               options
    * @returns {Promise<THREE.Mesh<THREE.BufferGeometry, THREE.Material>>}
-   * @note    For now, this implementation only
-   *          supports `.gltf` and `.glb` models,
-   *          and they must have the desired mesh as a
-   *          root mesh of the scene
-   *          (`model.scene.children[0]`)
+   * @throws  Error
+   * @note    Model can be a URL or an in-memory model
+   *          (model file, geometry, scene or raw point data)
+   * @note    If the format is not given, it is inferred
+   *          from the URL extension (or the file name)
+   * @note    Every mesh (or point cloud) of the model scene is merged
+   *          into a single mesh (with their world transforms baked).
+   *          If mesh names are given, only those meshes
+   *          (or the meshes inside objects with those names) are merged
+   * @note    Returned mesh is a copy of the loaded one,
+   *          so it can be modified and disposed without affecting
+   *          the cached model.
+   *          If every merged mesh uses the same material, a copy of it
+   *          is used (so its textures can be sampled).
+   *          Otherwise, a basic material is used
+   *          (and material textures are baked into the vertex colors)
    */
   async loadMeshFromModel(
-    url: string,
+    source: ModelInput,
+    onProgress?: (event: ProgressEvent) => void,
+    options: ModelLoadOptions = {},
   ): Promise<THREE.Mesh<THREE.BufferGeometry, THREE.Material>> {
-    const model = await this.#loader.loadAsync(url)
-    return model.scene.children[0] as THREE.Mesh<
-      THREE.BufferGeometry,
-      THREE.Material
-    >
+    const meshNames = options.meshes ?? []
+    const scene = await this.#getScene(source, options.format, onProgress)
+    scene.updateMatrixWorld(true)
+    const meshes = getMeshes(scene, meshNames)
+    if (!meshes.length) {
+      const url = typeof source === 'string' ? ` "${source}"` : ''
+      const names = meshNames.length ? ` named: ${meshNames.join(', ')}` : ''
+      throw new Error(`Model${url} does not have meshes${names}.`)
+    }
+
+    const material = getSharedMaterial(meshes)
+    return new THREE.Mesh(
+      mergeMeshes(meshes, material),
+      material?.clone() ?? new THREE.MeshBasicMaterial({vertexColors: true}),
+    )
+  }
+
+  /**
+   * Preload model
+   *
+   * @param   {string}                         url
+   * @param   {ModelFormat}                    format
+   * @param   {(event: ProgressEvent) => void} onProgress
+   * @returns {Promise<void>}
+   * @note    Model is stored in the shared asset cache,
+   *          so it is not loaded again when it is required
+   */
+  async preload(
+    url: string,
+    format?: ModelFormat,
+    onProgress?: (event: ProgressEvent) => void,
+  ): Promise<void> {
+    await this.#getScene(url, format, onProgress)
   }
 
   /**
    * Dispose
    *
    * @returns {void}
+   * @note    Loaded models are kept in the shared asset cache
+   * @note    Pending loads use the decoders of this manager,
+   *          and they can be shared by other managers,
+   *          so decoders are disposed once these loads are settled
+   *          (disposed decoders stop their workers, so the loads
+   *          would never be settled)
    */
   dispose(): void {
-    this.#dracoLoader.dispose()
+    Promise.allSettled(this.#pendingLoads).then(() => {
+      this.#dracoLoader?.dispose()
+      this.#ktx2Loader?.dispose()
+    })
+  }
+
+  /**
+   * Get model scene
+   *
+   * @param   {ModelInput}                     source
+   * @param   {ModelFormat}                    format
+   * @param   {(event: ProgressEvent) => void} onProgress
+   * @returns {Promise<THREE.Object3D>}
+   * @note    Model files are stored in the shared asset cache.
+   *          URLs are cached by URL, and in-memory files by reference.
+   *          Format and decoders are also part of the cache key,
+   *          so loaders with different decoders do not share assets
+   * @note    Geometries, scenes and raw point data do not need
+   *          to be parsed, so they are not cached
+   */
+  #getScene(
+    source: ModelInput,
+    format?: ModelFormat,
+    onProgress?: (event: ProgressEvent) => void,
+  ): Promise<THREE.Object3D> {
+    if (typeof source === 'string') {
+      const urlFormat = format ?? this.#getFormat(source)
+      return getCachedAsset(
+        `${this.#getCacheKey(urlFormat)}:${source}`,
+        (onAssetProgress) =>
+          this.#track(this.#load(source, urlFormat, onAssetProgress)),
+        onProgress,
+      )
+    }
+
+    if (source instanceof ArrayBuffer || source instanceof Blob) {
+      return getCachedFile(source, this.#getCacheKey(format), () =>
+        this.#track(this.#parseFile(source, format)),
+      )
+    }
+
+    return Promise.resolve(this.#createScene(source))
+  }
+
+  /**
+   * Track pending load
+   *
+   * @param   {Promise<THREE.Object3D>} load
+   * @returns {Promise<THREE.Object3D>}
+   */
+  #track(load: Promise<THREE.Object3D>): Promise<THREE.Object3D> {
+    this.#pendingLoads.add(load)
+    load.catch(() => {}).finally(() => this.#pendingLoads.delete(load))
+
+    return load
+  }
+
+  /**
+   * Get the cache key of the loader settings
+   *
+   * @param   {ModelFormat | undefined} format
+   * @returns {string}
+   * @note    Decoders are only used by glTF models,
+   *          so they are only part of the key for these models
+   */
+  #getCacheKey(format?: ModelFormat): string {
+    if (format && format !== 'gltf' && format !== 'glb') {
+      return format
+    }
+
+    return JSON.stringify([
+      format ?? '',
+      this.#dracoPath ?? '',
+      this.#ktx2TranscoderPath ?? '',
+      this.#isMeshoptEnabled,
+    ])
+  }
+
+  /**
+   * Load model scene
+   *
+   * @param   {string}                         url
+   * @param   {ModelFormat}                    format
+   * @param   {(event: ProgressEvent) => void} onProgress
+   * @returns {Promise<THREE.Object3D>}
+   */
+  async #load(
+    url: string,
+    format: ModelFormat,
+    onProgress?: (event: ProgressEvent) => void,
+  ): Promise<THREE.Object3D> {
+    const data = await this.#fileLoader.loadAsync(url, onProgress)
+
+    return this.#parse(
+      data as ArrayBuffer,
+      format,
+      THREE.LoaderUtils.extractUrlBase(url),
+    )
+  }
+
+  /**
+   * Parse in-memory model file
+   *
+   * @param   {ArrayBuffer | Blob}      file
+   * @param   {ModelFormat}             format
+   * @returns {Promise<THREE.Object3D>}
+   * @note    If the format is not given, it is inferred from the file name
+   *          (if the file does not have a name, glTF is used)
+   */
+  async #parseFile(
+    file: ArrayBuffer | Blob,
+    format?: ModelFormat,
+  ): Promise<THREE.Object3D> {
+    if (file instanceof ArrayBuffer) {
+      return this.#parse(file, format ?? DEFAULT_FORMAT)
+    }
+
+    return this.#parse(
+      await file.arrayBuffer(),
+      format ??
+        (file instanceof File ? this.#getFormat(file.name) : DEFAULT_FORMAT),
+    )
+  }
+
+  /**
+   * Parse model scene
+   *
+   * @param   {ArrayBuffer}             data
+   * @param   {ModelFormat}             format
+   * @param   {string}                  path
+   * @returns {Promise<THREE.Object3D>}
+   * @note    Formats that are parsed as a geometry (PLY and STL)
+   *          are wrapped in a mesh
+   * @note    Path is used to resolve the external resources
+   *          of the model (i.e.: glTF buffers and textures)
+   */
+  async #parse(
+    data: ArrayBuffer,
+    format: ModelFormat,
+    path: string = '',
+  ): Promise<THREE.Object3D> {
+    switch (format) {
+      case 'ply':
+        this.#plyLoader ??= new PLYLoader()
+        return this.#createMesh(this.#plyLoader.parse(data))
+
+      case 'stl':
+        this.#stlLoader ??= new STLLoader()
+        return this.#createMesh(this.#stlLoader.parse(data))
+
+      case 'pcd':
+        this.#pcdLoader ??= new PCDLoader()
+        return this.#pcdLoader.parse(data)
+
+      case 'obj':
+        this.#objLoader ??= new OBJLoader()
+        return this.#objLoader.parse(new TextDecoder().decode(data))
+
+      default:
+        return (await this.#loader.parseAsync(data, path)).scene
+    }
+  }
+
+  /**
+   * Create scene from an in-memory model
+   *
+   * @param   {THREE.BufferGeometry | THREE.Object3D | ModelPointData} source
+   * @returns {THREE.Object3D}
+   * @note    Geometries are wrapped in a mesh
+   *          and raw point data in a point cloud
+   */
+  #createScene(
+    source: THREE.BufferGeometry | THREE.Object3D | ModelPointData,
+  ): THREE.Object3D {
+    if ((source as THREE.Object3D).isObject3D) {
+      return source as THREE.Object3D
+    }
+
+    if ((source as THREE.BufferGeometry).isBufferGeometry) {
+      return this.#createMesh(source as THREE.BufferGeometry)
+    }
+
+    const {positions, colors} = source as ModelPointData
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+    if (colors) {
+      geometry.setAttribute(
+        'color',
+        new THREE.BufferAttribute(
+          colors,
+          colors.length / (positions.length / 3),
+        ),
+      )
+    }
+
+    return new THREE.Points(
+      geometry,
+      new THREE.PointsMaterial({vertexColors: !!colors}),
+    )
+  }
+
+  /**
+   * Create mesh from a loaded geometry
+   *
+   * @param   {THREE.BufferGeometry} geometry
+   * @returns {THREE.Mesh}
+   */
+  #createMesh(geometry: THREE.BufferGeometry): THREE.Mesh {
+    return new THREE.Mesh(
+      geometry,
+      new THREE.MeshBasicMaterial({
+        vertexColors: geometry.hasAttribute('color'),
+      }),
+    )
+  }
+
+  /**
+   * Get model format from the URL extension
+   *
+   * @param   {string}      url
+   * @returns {ModelFormat}
+   * @note    Query and hash are ignored.
+   *          If the extension is not a supported format,
+   *          the default format (glTF) is used
+   */
+  #getFormat(url: string): ModelFormat {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase()
+
+    return FORMATS.find((format) => format === extension) ?? DEFAULT_FORMAT
   }
 
   /**
    * Init loader
    *
    * @returns {void}
+   * @note    Meshopt decoder is a shared module (it does not use workers),
+   *          so it does not need to be disposed
    */
   #initLoader(): void {
     this.#loader = new GLTFLoader()
@@ -80,5 +479,16 @@ export default class ModelLoaderManager {
       this.#dracoLoader.setDecoderPath(this.#dracoPath)
       this.#loader.setDRACOLoader(this.#dracoLoader)
     }
+
+    if (this.#ktx2TranscoderPath && this.#renderer) {
+      this.#ktx2Loader = new KTX2Loader()
+      this.#ktx2Loader.setTranscoderPath(this.#ktx2TranscoderPath)
+      this.#ktx2Loader.detectSupport(this.#renderer)
+      this.#loader.setKTX2Loader(this.#ktx2Loader)
+    }
+
+    if (this.#isMeshoptEnabled) {
+      this.#loader.setMeshoptDecoder(MeshoptDecoder)
+    }
   }
 }
@@ -0,0 +1,142 @@
+/**
+ * @description Asset cache tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import * as THREE from 'three'
+import {afterEach, describe, expect, it, vi} from 'vitest'
+import {clearAssetCache, getCachedAsset, getCachedFile} from './asset-cache.js'
+
+/**
+ * Create a deferred load
+ *
+ * @returns {{
+ *            load: (onProgress: (event: ProgressEvent) => void) => Promise<THREE.Object3D>;
+ *            resolve: () => void;
+ *            reject: (error: Error) => void;
+ *            progress: (loaded: number) => void;
+ *          }}
+ */
+const createLoad = () => {
+  let resolve: (asset: THREE.Object3D) => void = () => {}
+  let reject: (error: Error) => void = () => {}
+  let onAssetProgress: (event: ProgressEvent) => void = () => {}
+  const load = vi.fn((onProgress: (event: ProgressEvent) => void) => {
+    onAssetProgress = onProgress
+    return new Promise<THREE.Object3D>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+  })
+
+  return {
+    load: load,
+    resolve: () => resolve(new THREE.Object3D()),
+    reject: (error: Error) => reject(error),
+    progress: (loaded: number) =>
+      onAssetProgress({loaded: loaded, total: 10} as ProgressEvent),
+  }
+}
+
+/**
+ * Load an asset that is resolved immediately
+ *
+ * @param   {string}                  key
+ * @returns {Promise<THREE.Object3D>}
+ */
+const loadAsset = (key: string): Promise<THREE.Object3D> =>
+  getCachedAsset(key, () => Promise.resolve(new THREE.Object3D()))
+
+/**
+ * Wait until pending promise callbacks are run
+ *
+ * @returns {Promise<void>}
+ */
+const flushPromises = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('asset cache', () => {
+  afterEach(() => clearAssetCache())
+
+  it('shares a single load between concurrent requests', async () => {
+    const {load, resolve} = createLoad()
+    const first = getCachedAsset('glb:/model.glb', load)
+    const second = getCachedAsset('glb:/model.glb', load)
+    resolve()
+
+    expect(load).toHaveBeenCalledTimes(1)
+    expect(await first).toBe(await second)
+  })
+
+  it('notifies progress to every pending request', async () => {
+    const {load, resolve, progress} = createLoad()
+    const firstListener = vi.fn()
+    const secondListener = vi.fn()
+    getCachedAsset('glb:/model.glb', load, firstListener)
+    getCachedAsset('glb:/model.glb', load, secondListener)
+    progress(5)
+
+    expect(firstListener).toHaveBeenCalledTimes(1)
+    expect(secondListener).toHaveBeenCalledTimes(1)
+
+    resolve()
+    await flushPromises()
+    progress(10)
+    expect(firstListener).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not keep listeners of loaded assets', async () => {
+    const {load, resolve, progress} = createLoad()
+    const asset = getCachedAsset('glb:/model.glb', load)
+    resolve()
+    await asset
+    await flushPromises()
+
+    const listener = vi.fn()
+    await getCachedAsset('glb:/model.glb', load, listener)
+    progress(10)
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('removes failed loads, so they can be requested again', async () => {
+    const failedLoad = createLoad()
+    const asset = getCachedAsset('glb:/model.glb', failedLoad.load)
+    failedLoad.reject(new Error('Not found.'))
+    await expect(asset).rejects.toThrow('Not found.')
+
+    const load = vi.fn(() => Promise.resolve(new THREE.Object3D()))
+    await getCachedAsset('glb:/model.glb', load)
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('evicts the least recently used assets', async () => {
+    const assets = []
+    for (let i = 0; i < 16; i++) {
+      assets.push(await loadAsset(String(i)))
+    }
+    await loadAsset('0')
+    await loadAsset('16')
+
+    expect(await loadAsset('0')).toBe(assets[0])
+    expect(await loadAsset('1')).not.toBe(assets[1])
+  })
+
+  it('caches files by reference and key', async () => {
+    const file = new ArrayBuffer(8)
+    const load = vi.fn(() => Promise.resolve(new THREE.Object3D()))
+    const asset = await getCachedFile(file, 'glb', load)
+
+    expect(await getCachedFile(file, 'glb', load)).toBe(asset)
+    expect(await getCachedFile(file, 'gltf', load)).not.toBe(asset)
+    expect(await getCachedFile(new ArrayBuffer(8), 'glb', load)).not.toBe(asset)
+    expect(load).toHaveBeenCalledTimes(3)
+  })
+
+  it('clears every cached asset', async () => {
+    const asset = await loadAsset('0')
+    clearAssetCache()
+
+    expect(await loadAsset('0')).not.toBe(asset)
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * @description Model loader manager asset cache
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Loaded model scenes are shared between instances,
+ *              so a model that is required again (i.e.: on breakpoint
+ *              change, by another instance or after a preload)
+ *              is not downloaded and parsed again.
+ *              Concurrent requests of the same asset share a single load.
+ *              The least recently used assets are evicted when the
+ *              cache is full. Cached scenes are never rendered
+ *              (entities use copies of their meshes), so they do not
+ *              hold GPU resources and they are only dereferenced.
+ *              In-memory files are cached by reference, while they
+ *              are referenced by the app (they are not evicted)
+ */
+import * as THREE from 'three'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Max number of cached assets
+ */
+const MAX_ENTRIES: number = 16
+
+/**
+ * @note Cached asset.
+ *       Progress listeners are kept while the asset is loading,
+ *       so every request of the asset is notified.
+ *       Once the load is settled, listeners are not added,
+ *       so the cache does not keep references to the requesters
+ */
+interface CacheEntry {
+  asset: Promise<THREE.Object3D>
+  listeners: Set<(event: ProgressEvent) => void>
+  isSettled: boolean
+}
+
+/**
+ * @type {Map<string, CacheEntry>}
+ * @note Map keeps insertion order, so the first entry
+ *       is the least recently used one
+ */
+const cache: Map<string, CacheEntry> = new Map()
+
+/**
+ * @type {WeakMap<object, Map<string, CacheEntry>>}
+ * @note In-memory files can be parsed with different settings
+ *       (i.e.: format or decoders), so every file has its own entries
+ */
+let fileCache: WeakMap<object, Map<string, CacheEntry>> = new WeakMap()
+
+/**
+ * Get cached asset
+ *
+ * @param   {string}                                                                  key
+ * @param   {(onProgress: (event: ProgressEvent) => void) => Promise<THREE.Object3D>} load
+ * @param   {(event: ProgressEvent) => void}                                          onProgress
+ * @returns {Promise<THREE.Object3D>}
+ * @note    If the asset is not cached, it is loaded.
+ *          If the load fails, the asset is removed from the cache,
+ *          so it can be requested again
+ */
+export const getCachedAsset = (
+  key: string,
+  load: (onProgress: (event: ProgressEvent) => void) => Promise<THREE.Object3D>,
+  onProgress?: (event: ProgressEvent) => void,
+): Promise<THREE.Object3D> => {
+  let entry = cache.get(key)
+  if (entry) {
+    cache.delete(key)
+  } else {
+    entry = createEntry(load, (failedEntry) => {
+      if (cache.get(key) === failedEntry) {
+        cache.delete(key)
+      }
+    })
+  }
+
+  addListener(entry, onProgress)
+
+  cache.set(key, entry)
+  evictAssets()
+
+  return entry.asset
+}
+
+/**
+ * Clear asset cache
+ *
+ * @returns {void}
+ * @note    Pending loads are not cancelled,
+ *          but their results are not cached
+ */
+export const clearAssetCache = (): void => {
+  cache.clear()
+  fileCache = new WeakMap()
+}
+
+/**
+ * Get cached in-memory file
+ *
+ * @param   {object}                        file
+ * @param   {string}                        key
+ * @param   {() => Promise<THREE.Object3D>} load
+ * @returns {Promise<THREE.Object3D>}
+ * @note    Files are stored in a weak map, so they do not prevent
+ *          their garbage collection (they are not evicted).
+ *          Key identifies the settings used to parse the file
+ */
+export const getCachedFile = (
+  file: object,
+  key: string,
+  load: () => Promise<THREE.Object3D>,
+): Promise<THREE.Object3D> => {
+  const entries = fileCache.get(file) ?? new Map<string, CacheEntry>()
+  fileCache.set(file, entries)
+
+  let entry = entries.get(key)
+  if (!entry) {
+    entry = createEntry(load, (failedEntry) => {
+      if (entries.get(key) === failedEntry) {
+        entries.delete(key)
+      }
+    })
+    entries.set(key, entry)
+  }
+
+  return entry.asset
+}
+
+/**
+ * Create cache entry
+ *
+ * @param   {(onProgress: (event: ProgressEvent) => void) => Promise<THREE.Object3D>} load
+ * @param   {(entry: CacheEntry) => void}                                             onError
+ * @returns {CacheEntry}
+ * @note    Progress of the load is forwarded to every listener
+ *          of the entry
+ */
+const createEntry = (
+  load: (onProgress: (event: ProgressEvent) => void) => Promise<THREE.Object3D>,
+  onError: (entry: CacheEntry) => void,
+): CacheEntry => {
+  const listeners = new Set<(event: ProgressEvent) => void>()
+  const asset = load((event) =>
+    listeners.forEach((listener) => listener(event)),
+  )
+  const entry = {asset: asset, listeners: listeners, isSettled: false}
+  asset
+    .catch(() => onError(entry))
+    .finally(() => {
+      entry.isSettled = true
+      listeners.clear()
+    })
+
+  return entry
+}
+
+/**
+ * Add progress listener to a cache entry
+ *
+ * @param   {CacheEntry}                     entry
+ * @param   {(event: ProgressEvent) => void} onProgress
+ * @returns {void}
+ * @note    Listener is only added while the asset is loading
+ */
+const addListener = (
+  entry: CacheEntry,
+  onProgress?: (event: ProgressEvent) => void,
+): void => {
+  if (onProgress && !entry.isSettled) {
+    entry.listeners.add(onProgress)
+  }
+}
+
+/**
+ * Evict the least recently used assets
+ *
+ * @returns {void}
+ */
+const evictAssets = (): void => {
+  for (const key of cache.keys()) {
+    if (cache.size <= MAX_ENTRIES) {
+      break
+    }
+
+    cache.delete(key)
+  }
+}
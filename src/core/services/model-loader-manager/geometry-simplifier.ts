@@ -0,0 +1,133 @@
+/**
+ * @description Model loader manager geometry simplifier
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Geometries are simplified to be used as raycast proxies
+ *              (i.e.: when a model does not have a low poly version).
+ *              Meshes are simplified by vertex clustering in a worker
+ *              (if workers are not available, it is done in the main
+ *              thread). Point clouds do not have triangles, so their
+ *              convex hull is used
+ */
+import * as THREE from 'three'
+import {ConvexGeometry} from 'three/addons/geometries/ConvexGeometry.js'
+import SimplifierWorker from './geometry-simplifier/worker.js?worker&inline'
+import {
+  simplify,
+  type SimplifiedGeometry,
+} from './geometry-simplifier/voxel-clustering.js'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Max number of points used to build the convex hull
+ *       of a point cloud
+ */
+const MAX_HULL_POINTS: number = 10000
+
+/**
+ * Simplify geometry
+ *
+ * @param   {THREE.BufferGeometry}          geometry
+ * @param   {number}                        targetTriangles
+ * @returns {Promise<THREE.BufferGeometry>}
+ * @note    Only positions are kept, because the simplified geometry
+ *          is only used to raycast
+ * @note    Source geometry is not modified
+ */
+export const simplifyGeometry = async (
+  geometry: THREE.BufferGeometry,
+  targetTriangles: number,
+): Promise<THREE.BufferGeometry> => {
+  const position = geometry.getAttribute('position')
+  if (geometry.userData.isPointCloud) {
+    return createHull(position)
+  }
+
+  const positions = new Float32Array(position.count * 3)
+  for (let i = 0; i < position.count; i++) {
+    positions[i * 3] = position.getX(i)
+    positions[i * 3 + 1] = position.getY(i)
+    positions[i * 3 + 2] = position.getZ(i)
+  }
+  const index = geometry.index ? Uint32Array.from(geometry.index.array) : null
+
+  let simplifiedGeometry: SimplifiedGeometry
+  try {
+    simplifiedGeometry = await simplifyInWorker(
+      positions,
+      index,
+      targetTriangles,
+    )
+  } catch {
+    simplifiedGeometry = simplify(positions, index, targetTriangles)
+  }
+
+  const result = new THREE.BufferGeometry()
+  result.setAttribute(
+    'position',
+    new THREE.BufferAttribute(simplifiedGeometry.positions, 3),
+  )
+  result.setIndex(new THREE.BufferAttribute(simplifiedGeometry.index, 1))
+  result.computeVertexNormals()
+
+  return result
+}
+
+/**
+ * Simplify geometry in a worker
+ *
+ * @param   {Float32Array}                positions
+ * @param   {Uint32Array | null}          index
+ * @param   {number}                      targetTriangles
+ * @returns {Promise<SimplifiedGeometry>}
+ * @note    Data is copied (not transferred) to the worker,
+ *          so it can still be used if the worker fails
+ *          (i.e.: when workers are blocked by a content security policy)
+ */
+const simplifyInWorker = (
+  positions: Float32Array,
+  index: Uint32Array | null,
+  targetTriangles: number,
+): Promise<SimplifiedGeometry> => {
+  return new Promise((resolve, reject) => {
+    const worker = new SimplifierWorker()
+    worker.addEventListener(
+      'message',
+      (e: MessageEvent<SimplifiedGeometry>) => {
+        worker.terminate()
+        resolve(e.data)
+      },
+    )
+    worker.addEventListener('error', (e) => {
+      worker.terminate()
+      reject(e)
+    })
+    worker.postMessage({
+      positions: positions,
+      index: index,
+      targetTriangles: targetTriangles,
+    })
+  })
+}
+
+/**
+ * Create the convex hull of a point cloud
+ *
+ * @param   {THREE.BufferAttribute | THREE.InterleavedBufferAttribute} position
+ * @returns {THREE.BufferGeometry}
+ * @note    Big point clouds are strided, to limit the hull build time
+ *          (so the hull is an approximation)
+ */
+const createHull = (
+  position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+): THREE.BufferGeometry => {
+  const stride = Math.max(1, Math.ceil(position.count / MAX_HULL_POINTS))
+  const points: THREE.Vector3[] = []
+  for (let i = 0; i < position.count; i += stride) {
+    points.push(
+      new THREE.Vector3(position.getX(i), position.getY(i), position.getZ(i)),
+    )
+  }
+
+  return new ConvexGeometry(points)
+}
@@ -0,0 +1,62 @@
+/**
+ * @description Geometry simplifier voxel clustering tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import * as THREE from 'three'
+import {describe, expect, it} from 'vitest'
+import {simplify} from './voxel-clustering.js'
+
+/**
+ * Get the data of a geometry
+ *
+ * @param   {THREE.BufferGeometry}        geometry
+ * @returns {[Float32Array, Uint32Array]}
+ */
+const getData = (
+  geometry: THREE.BufferGeometry,
+): [Float32Array, Uint32Array] => [
+  geometry.getAttribute('position').array as Float32Array,
+  new Uint32Array(geometry.getIndex()?.array ?? []),
+]
+
+describe('simplify', () => {
+  it('returns the geometry as it is when it does not exceed the target', () => {
+    const [positions, index] = getData(new THREE.BoxGeometry())
+    const result = simplify(positions, index, 100)
+
+    expect(result.positions).toBe(positions)
+    expect(result.index).toBe(index)
+  })
+
+  it('simplifies the geometry without exceeding the target', () => {
+    const [positions, index] = getData(new THREE.SphereGeometry(1, 64, 32))
+    const result = simplify(positions, index, 500)
+
+    expect(result.index.length / 3).toBeLessThanOrEqual(500)
+    expect(result.index.length / 3).toBeGreaterThan(100)
+  })
+
+  it('indexes non-indexed geometries', () => {
+    const geometry = new THREE.SphereGeometry(1, 64, 32).toNonIndexed()
+    const result = simplify(getData(geometry)[0], null, 500)
+
+    expect(result.index.length / 3).toBeLessThanOrEqual(500)
+    expect(result.index.length).toBeGreaterThan(0)
+  })
+
+  it('keeps some triangles when the target can not be met', () => {
+    const [positions, index] = getData(new THREE.SphereGeometry(1, 64, 32))
+    const result = simplify(positions, index, 1)
+
+    expect(result.index.length).toBeGreaterThan(0)
+  })
+
+  it('keeps some triangles of thin models', () => {
+    const [positions, index] = getData(
+      new THREE.PlaneGeometry(100, 0.01, 256, 1),
+    )
+    const result = simplify(positions, index, 2)
+
+    expect(result.index.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * @description Geometry simplifier voxel clustering
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Vertices are clustered in a grid of voxels: every vertex
+ *              inside a voxel is replaced by the average of them.
+ *              Triangles that collapse (two or more vertices in the same
+ *              voxel) and duplicated triangles are removed.
+ *              The grid resolution is searched, so the result has as many
+ *              triangles as possible without exceeding the target
+ *              (but it always keeps some triangles).
+ *              It does not depend on Three.js, so it can run in a worker
+ * {@link       https://en.wikipedia.org/wiki/Vertex_clustering}
+ */
+
+/**
+ * @constant
+ * @type {number}
+ * @note Max number of voxels along the longest axis of the geometry
+ */
+const MAX_RESOLUTION: number = 1024
+
+/**
+ * @note Simplified geometry data
+ */
+export interface SimplifiedGeometry {
+  positions: Float32Array
+  index: Uint32Array
+}
+
+/**
+ * Simplify geometry
+ *
+ * @param   {Float32Array}       positions
+ * @param   {Uint32Array | null} index
+ * @param   {number}             targetTriangles
+ * @returns {SimplifiedGeometry}
+ * @note    If the geometry is not indexed, every three vertices
+ *          are a triangle
+ * @note    If the geometry does not exceed the target,
+ *          it is returned as it is
+ */
+export const simplify = (
+  positions: Float32Array,
+  index: Uint32Array | null,
+  targetTriangles: number,
+): SimplifiedGeometry => {
+  const triangles = index ?? createIndex(positions.length / 3)
+  if (triangles.length / 3 <= targetTriangles) {
+    return {positions: positions, index: triangles}
+  }
+
+  const bounds = getBounds(positions)
+  let min = 1
+  let max = MAX_RESOLUTION
+  let result = cluster(positions, triangles, bounds, min)
+  while (min < max) {
+    const resolution = Math.ceil((min + max) / 2)
+    const candidate = cluster(positions, triangles, bounds, resolution)
+    if (candidate.index.length / 3 <= targetTriangles) {
+      min = resolution
+      result = candidate
+    } else {
+      max = resolution - 1
+    }
+  }
+
+  return result.index.length
+    ? result
+    : clusterWithTriangles(positions, triangles, bounds, min + 1)
+}
+
+/**
+ * Cluster vertices with the smallest resolution that keeps triangles
+ *
+ * @param   {Float32Array}         positions
+ * @param   {Uint32Array}          index
+ * @param   {[number[], number[]]} bounds
+ * @param   {number}               minResolution
+ * @returns {SimplifiedGeometry}
+ * @note    It is used when every resolution that meets the target
+ *          collapses all the triangles (i.e.: small targets
+ *          or thin models), so the result is not empty
+ *          (even if it exceeds the target).
+ *          If every resolution collapses all the triangles,
+ *          the geometry is returned as it is
+ */
+const clusterWithTriangles = (
+  positions: Float32Array,
+  index: Uint32Array,
+  bounds: [number[], number[]],
+  minResolution: number,
+): SimplifiedGeometry => {
+  let result: SimplifiedGeometry = {positions: positions, index: index}
+  let min = minResolution
+  let max = MAX_RESOLUTION
+  while (min <= max) {
+    const resolution = Math.floor((min + max) / 2)
+    const candidate = cluster(positions, index, bounds, resolution)
+    if (candidate.index.length) {
+      max = resolution - 1
+      result = candidate
+    } else {
+      min = resolution + 1
+    }
+  }
+
+  return result
+}
+
+/**
+ * Cluster vertices in a grid of voxels
+ *
+ * @param   {Float32Array}         positions
+ * @param   {Uint32Array}          index
+ * @param   {[number[], number[]]} bounds
+ * @param   {number}               resolution
+ * @returns {SimplifiedGeometry}
+ */
+const cluster = (
+  positions: Float32Array,
+  index: Uint32Array,
+  bounds: [number[], number[]],
+  resolution: number,
+): SimplifiedGeometry => {
+  const [origin, size] = bounds
+  const voxelSize = Math.max(size[0], size[1], size[2]) / resolution || 1
+  const getCell = (value: number, axis: number): number =>
+    Math.min(Math.floor((value - origin[axis]) / voxelSize), resolution - 1)
+
+  const vertexCount = positions.length / 3
+  const vertexClusters = new Uint32Array(vertexCount)
+  const clusters = new Map<number, number>()
+  const sums: number[] = []
+  const counts: number[] = []
+  for (let i = 0; i < vertexCount; i++) {
+    const key =
+      getCell(positions[i * 3], 0) +
+      resolution *
+        (getCell(positions[i * 3 + 1], 1) +
+          resolution * getCell(positions[i * 3 + 2], 2))
+
+    let clusterIndex = clusters.get(key)
+    if (clusterIndex === undefined) {
+      clusterIndex = counts.length
+      clusters.set(key, clusterIndex)
+      sums.push(0, 0, 0)
+      counts.push(0)
+    }
+
+    for (let axis = 0; axis < 3; axis++) {
+      sums[clusterIndex * 3 + axis] += positions[i * 3 + axis]
+    }
+    counts[clusterIndex]++
+    vertexClusters[i] = clusterIndex
+  }
+
+  const clusteredPositions = new Float32Array(counts.length * 3)
+  for (let i = 0; i < counts.length; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      clusteredPositions[i * 3 + axis] = sums[i * 3 + axis] / counts[i]
+    }
+  }
+
+  const triangles = new Set<string>()
+  const clusteredIndex: number[] = []
+  for (let i = 0; i < index.length; i += 3) {
+    const a = vertexClusters[index[i]]
+    const b = vertexClusters[index[i + 1]]
+    const c = vertexClusters[index[i + 2]]
+    if (a === b || b === c || a === c) {
+      continue
+    }
+
+    const key = [a, b, c].sort((x, y) => x - y).join(',')
+    if (!triangles.has(key)) {
+      triangles.add(key)
+      clusteredIndex.push(a, b, c)
+    }
+  }
+
+  return {
+    positions: clusteredPositions,
+    index: new Uint32Array(clusteredIndex),
+  }
+}
+
+/**
+ * Get the bounds (origin and size) of the positions
+ *
+ * @param   {Float32Array}         positions
+ * @returns {[number[], number[]]}
+ */
+const getBounds = (positions: Float32Array): [number[], number[]] => {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], positions[i + axis])
+      max[axis] = Math.max(max[axis], positions[i + axis])
+    }
+  }
+
+  return [min, max.map((value, axis) => value - min[axis])]
+}
+
+/**
+ * Create sequential index
+ *
+ * @param   {number}      count
+ * @returns {Uint32Array}
+ */
+const createIndex = (count: number): Uint32Array => {
+  const index = new Uint32Array(count - (count % 3))
+  for (let i = 0; i < index.length; i++) {
+    index[i] = i
+  }
+
+  return index
+}
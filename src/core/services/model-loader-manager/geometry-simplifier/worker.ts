@@ -0,0 +1,29 @@
+/**
+ * @description Geometry simplifier worker
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Geometries are simplified off the main thread,
+ *              so big models do not block the rendering
+ */
+import {simplify} from './voxel-clustering.js'
+
+self.addEventListener(
+  'message',
+  (
+    e: MessageEvent<{
+      positions: Float32Array
+      index: Uint32Array | null
+      targetTriangles: number
+    }>,
+  ) => {
+    const {positions, index} = simplify(
+      e.data.positions,
+      e.data.index,
+      e.data.targetTriangles,
+    )
+
+    self.postMessage(
+      {positions: positions, index: index},
+      {transfer: [positions.buffer, index.buffer]},
+    )
+  },
+)
@@ -0,0 +1,124 @@
+/**
+ * @description Model loader manager mesh merger tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import * as THREE from 'three'
+import {describe, expect, it} from 'vitest'
+import {getMeshes, getSharedMaterial, mergeMeshes} from './mesh-merger.js'
+
+/**
+ * Create a model with two meshes inside a group
+ *
+ * @returns {{scene: THREE.Scene; box: THREE.Mesh; plane: THREE.Mesh}}
+ */
+const createModel = (): {
+  scene: THREE.Scene
+  box: THREE.Mesh
+  plane: THREE.Mesh
+} => {
+  const scene = new THREE.Scene()
+  const group = new THREE.Group()
+  group.name = 'group'
+  group.position.set(10, 0, 0)
+  const box = new THREE.Mesh(
+    new THREE.BoxGeometry(),
+    new THREE.MeshBasicMaterial({color: 0xff0000}),
+  )
+  box.name = 'box'
+  const plane = new THREE.Mesh(
+    new THREE.PlaneGeometry().toNonIndexed(),
+    new THREE.MeshBasicMaterial(),
+  )
+  plane.name = 'plane'
+  group.add(box)
+  scene.add(group, plane)
+  scene.updateMatrixWorld(true)
+
+  return {scene: scene, box: box, plane: plane}
+}
+
+describe('mesh merger', () => {
+  it('gets the meshes of a model', () => {
+    const {scene, box, plane} = createModel()
+
+    expect(getMeshes(scene)).toEqual([box, plane])
+    expect(getMeshes(scene, ['group'])).toEqual([box])
+    expect(getMeshes(scene, ['plane'])).toEqual([plane])
+    expect(getMeshes(scene, ['unknown'])).toEqual([])
+  })
+
+  it('gets the material shared by every mesh', () => {
+    const {box, plane} = createModel()
+
+    expect(getSharedMaterial([box])).toBe(box.material)
+    expect(getSharedMaterial([box, plane])).toBeNull()
+  })
+
+  it('merges meshes with their world transforms baked', () => {
+    const {scene, box, plane} = createModel()
+    const geometry = mergeMeshes(getMeshes(scene))
+    const position = geometry.getAttribute('position')
+    const boxCount = box.geometry.getAttribute('position').count
+    const planeCount = plane.geometry.getAttribute('position').count
+
+    expect(position.count).toBe(boxCount + planeCount)
+    expect(position.getX(0)).toBe(
+      box.geometry.getAttribute('position').getX(0) + 10,
+    )
+    expect(geometry.index?.count).toBe(
+      (box.geometry.index?.count ?? 0) + planeCount,
+    )
+    expect(geometry.userData.isPointCloud).toBe(false)
+    expect(box.geometry.getAttribute('position').getX(0)).toBe(0.5)
+  })
+
+  it('bakes the material colors into the vertex colors', () => {
+    const {scene, box} = createModel()
+    const geometry = mergeMeshes(getMeshes(scene))
+    const color = geometry.getAttribute('color')
+    const boxCount = box.geometry.getAttribute('position').count
+
+    expect(color.itemSize).toBe(4)
+    expect([
+      color.getX(0),
+      color.getY(0),
+      color.getZ(0),
+      color.getW(0),
+    ]).toEqual([1, 0, 0, 1])
+    expect([
+      color.getX(boxCount),
+      color.getY(boxCount),
+      color.getZ(boxCount),
+    ]).toEqual([1, 1, 1])
+  })
+
+  it('only keeps the attributes of every mesh', () => {
+    const {box} = createModel()
+    const points = new THREE.Points(
+      new THREE.BufferGeometry().setAttribute(
+        'position',
+        new THREE.Float32BufferAttribute([0, 0, 0, 1, 1, 1], 3),
+      ),
+      new THREE.PointsMaterial(),
+    )
+    points.updateMatrixWorld(true)
+    const geometry = mergeMeshes([box, points])
+
+    expect(Object.keys(geometry.attributes).sort()).toEqual([
+      'color',
+      'position',
+    ])
+  })
+
+  it('flags point clouds', () => {
+    const points = new THREE.Points(
+      new THREE.BufferGeometry().setAttribute(
+        'position',
+        new THREE.Float32BufferAttribute([0, 0, 0, 1, 1, 1], 3),
+      ),
+      new THREE.PointsMaterial(),
+    )
+
+    expect(mergeMeshes([points]).userData.isPointCloud).toBe(true)
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * @description Model loader manager mesh merger
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Models can have several meshes (or point clouds), nested in groups
+ *              with their own transforms (i.e.: multi-part models).
+ *              Meshes are merged into a single geometry, baking their
+ *              world transforms, so the model can be handled as one mesh.
+ *              Attributes are reconciled, so every mesh can be merged:
+ *              - A `color` attribute (float RGBA) is always created.
+ *                Vertex colors (white, if a mesh does not have them)
+ *                are multiplied by the material color and,
+ *                if the material is not shared by every mesh,
+ *                by its texture color at the vertex UV
+ *              - Other attributes are only kept if every mesh has them
+ *              - If some meshes are indexed, an index is created for the
+ *                ones that are not indexed
+ *              If every merged object is a point cloud, the geometry
+ *              is flagged with `userData.isPointCloud`, because its
+ *              vertices do not describe triangles
+ */
+import * as THREE from 'three'
+import {mergeGeometries} from 'three/addons/utils/BufferGeometryUtils.js'
+import TextureSampler from './texture-sampler.js'
+
+/**
+ * @constant
+ * @type {string[]}
+ * @note Attributes that are kept (if every mesh has them).
+ *       Other attributes (i.e.: skinning attributes) are not used
+ */
+const ATTRIBUTES: string[] = ['position', 'normal', 'uv']
+
+/**
+ * @note Objects with a geometry that can be merged
+ */
+export type MergeableMesh = THREE.Mesh | THREE.Points
+
+/**
+ * @note Material with a base color (i.e.: standard or basic materials)
+ */
+type ColoredMaterial = THREE.Material & {
+  color?: THREE.Color
+  map?: THREE.Texture | null
+}
+
+/**
+ * Get the meshes of a model
+ *
+ * @param   {THREE.Object3D} object
+ * @param   {string[]}       names
+ * @param   {boolean}        isSelected
+ * @returns {MergeableMesh[]}
+ * @note    Point clouds (i.e.: loaded from PCD files) are also returned
+ * @note    If names are given, only the meshes with those names
+ *          (or inside objects with those names) are returned
+ */
+export const getMeshes = (
+  object: THREE.Object3D,
+  names: string[] = [],
+  isSelected: boolean = !names.length,
+): MergeableMesh[] => {
+  isSelected = isSelected || names.includes(object.name)
+
+  const meshes: MergeableMesh[] = []
+  if (
+    isSelected &&
+    ((object as THREE.Mesh).isMesh || (object as THREE.Points).isPoints)
+  ) {
+    meshes.push(object as MergeableMesh)
+  }
+
+  for (const child of object.children) {
+    meshes.push(...getMeshes(child, names, isSelected))
+  }
+
+  return meshes
+}
+
+/**
+ * Get the material shared by every mesh
+ *
+ * @param   {MergeableMesh[]}       meshes
+ * @returns {THREE.Material | null}
+ */
+export const getSharedMaterial = (
+  meshes: MergeableMesh[],
+): THREE.Material | null => {
+  const materials = new Set(
+    meshes.flatMap((mesh) =>
+      Array.isArray(mesh.material) ? mesh.material : [mesh.material],
+    ),
+  )
+
+  return materials.size === 1 ? [...materials][0] : null
+}
+
+/**
+ * Merge meshes
+ *
+ * @param   {MergeableMesh[]}       meshes
+ * @param   {THREE.Material | null} sharedMaterial
+ * @returns {THREE.BufferGeometry}
+ * @note    World matrices of the meshes must be updated
+ * @note    Source geometries are not modified
+ * @note    Textures of the shared material are not baked into
+ *          the vertex colors, so they can be sampled at any UV
+ *          (i.e.: across the model surface)
+ */
+export const mergeMeshes = (
+  meshes: MergeableMesh[],
+  sharedMaterial: THREE.Material | null = null,
+): THREE.BufferGeometry => {
+  const attributes = ATTRIBUTES.filter((name) =>
+    meshes.every((mesh) => mesh.geometry.hasAttribute(name)),
+  )
+
+  const isPointCloud = meshes.every((mesh) => (mesh as THREE.Points).isPoints)
+  const textureSamplers = new Map<THREE.Texture, TextureSampler | null>()
+  const geometries = meshes.map((mesh) =>
+    createGeometry(mesh, attributes, sharedMaterial, textureSamplers),
+  )
+  if (geometries.length === 1) {
+    geometries[0].userData.isPointCloud = isPointCloud
+    return geometries[0]
+  }
+
+  if (geometries.some((geometry) => geometry.index)) {
+    for (const geometry of geometries) {
+      if (!geometry.index) {
+        geometry.setIndex(
+          Array.from({length: geometry.attributes.position.count}, (_, i) => i),
+        )
+      }
+    }
+  }
+
+  const geometry = mergeGeometries(geometries)
+  geometry.userData.isPointCloud = isPointCloud
+  for (const mergedGeometry of geometries) {
+    mergedGeometry.dispose()
+  }
+
+  return geometry
+}
+
+/**
+ * Create the geometry of a mesh, with its world transform baked
+ *
+ * @param   {MergeableMesh}                             mesh
+ * @param   {string[]}                                  attributes
+ * @param   {THREE.Material | null}                     sharedMaterial
+ * @param   {Map<THREE.Texture, TextureSampler | null>} textureSamplers
+ * @returns {THREE.BufferGeometry}
+ * @note    Attributes are converted to float attributes,
+ *          so attributes with different types (i.e.: quantized ones)
+ *          can be merged
+ */
+const createGeometry = (
+  mesh: MergeableMesh,
+  attributes: string[],
+  sharedMaterial: THREE.Material | null,
+  textureSamplers: Map<THREE.Texture, TextureSampler | null>,
+): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry()
+  for (const name of attributes) {
+    const attribute = mesh.geometry.getAttribute(name)
+    geometry.setAttribute(name, toFloat32(attribute, attribute.itemSize))
+  }
+  geometry.setAttribute(
+    'color',
+    getColor(mesh, sharedMaterial, textureSamplers),
+  )
+
+  if (mesh.geometry.index) {
+    geometry.setIndex(Array.from(mesh.geometry.index.array))
+  }
+
+  geometry.applyMatrix4(mesh.matrixWorld)
+
+  return geometry
+}
+
+/**
+ * Get the color attribute of a mesh as a float RGBA attribute
+ *
+ * @param   {MergeableMesh}                             mesh
+ * @param   {THREE.Material | null}                     sharedMaterial
+ * @param   {Map<THREE.Texture, TextureSampler | null>} textureSamplers
+ * @returns {THREE.BufferAttribute}
+ * @note    If the geometry does not have colors, white is used.
+ *          If colors do not have alpha, it is set to `1`
+ * @note    Vertex colors are multiplied by the color of their material,
+ *          as it is done when the mesh is rendered.
+ *          If the material is not the shared one,
+ *          its texture color at the vertex UV is also applied
+ */
+const getColor = (
+  mesh: MergeableMesh,
+  sharedMaterial: THREE.Material | null,
+  textureSamplers: Map<THREE.Texture, TextureSampler | null>,
+): THREE.BufferAttribute => {
+  const geometry = mesh.geometry
+  const count = geometry.getAttribute('position').count
+  const color = geometry.hasAttribute('color')
+    ? toFloat32(geometry.getAttribute('color'), 4, 1)
+    : new THREE.BufferAttribute(new Float32Array(count * 4).fill(1), 4)
+
+  const materials = (
+    Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+  ) as ColoredMaterial[]
+  const vertexMaterials = getVertexMaterials(geometry, materials.length)
+  const uv = geometry.getAttribute('uv')
+  const vertexUv = new THREE.Vector2()
+  const materialColor = new THREE.Color()
+  const textureColor = new THREE.Color()
+  for (let i = 0; i < count; i++) {
+    const material = materials[vertexMaterials[i]]
+    if (!material) {
+      continue
+    }
+
+    materialColor.setRGB(1, 1, 1)
+    if (material.color) {
+      materialColor.copy(material.color)
+    }
+
+    if (material !== sharedMaterial && material.map && uv) {
+      let textureSampler = textureSamplers.get(material.map)
+      if (textureSampler === undefined) {
+        textureSampler = TextureSampler.create(material.map)
+        textureSamplers.set(material.map, textureSampler)
+      }
+
+      if (textureSampler) {
+        vertexUv.set(uv.getX(i), uv.getY(i))
+        materialColor.multiply(textureSampler.sample(vertexUv, textureColor))
+      }
+    }
+
+    color.setXYZ(
+      i,
+      color.getX(i) * materialColor.r,
+      color.getY(i) * materialColor.g,
+      color.getZ(i) * materialColor.b,
+    )
+  }
+
+  return color
+}
+
+/**
+ * Get the material index of every vertex of a geometry
+ *
+ * @param   {THREE.BufferGeometry} geometry
+ * @param   {number}               materialCount
+ * @returns {Uint32Array}
+ * @note    Meshes with several materials use geometry groups
+ *          to assign a material to a range of vertices (or indices).
+ *          If a vertex is shared by several groups,
+ *          the last group is used
+ */
+const getVertexMaterials = (
+  geometry: THREE.BufferGeometry,
+  materialCount: number,
+): Uint32Array => {
+  const vertexMaterials = new Uint32Array(
+    geometry.getAttribute('position').count,
+  )
+  if (materialCount < 2) {
+    return vertexMaterials
+  }
+
+  for (const group of geometry.groups) {
+    const end = Math.min(
+      group.start + group.count,
+      geometry.index?.count ?? vertexMaterials.length,
+    )
+    for (let i = group.start; i < end; i++) {
+      const vertex = geometry.index ? geometry.index.getX(i) : i
+      vertexMaterials[vertex] = group.materialIndex ?? 0
+    }
+  }
+
+  return vertexMaterials
+}
+
+/**
+ * Convert an attribute to a float attribute
+ *
+ * @param   {THREE.BufferAttribute | THREE.InterleavedBufferAttribute} attribute
+ * @param   {number}                                                   itemSize
+ * @param   {number}                                                   fill
+ * @returns {THREE.BufferAttribute}
+ * @note    Normalized values are converted to their float values.
+ *          Missing components are set to the `fill` value
+ */
+const toFloat32 = (
+  attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  itemSize: number,
+  fill: number = 0,
+): THREE.BufferAttribute => {
+  const array = new Float32Array(attribute.count * itemSize).fill(fill)
+  const components = Math.min(attribute.itemSize, itemSize)
+  for (let i = 0; i < attribute.count; i++) {
+    for (let c = 0; c < components; c++) {
+      array[i * itemSize + c] = attribute.getComponent(i, c)
+    }
+  }
+
+  return new THREE.BufferAttribute(array, itemSize)
+}
@@ -0,0 +1,121 @@
+/**
+ * @description Model loader manager texture sampler
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Texture images are decoded on the CPU, so texture colors
+ *              can be assigned to the model points.
+ *              Images that can not be drawn in a canvas
+ *              (i.e.: compressed textures or cross-origin images without
+ *              CORS) can not be sampled
+ */
+import * as THREE from 'three'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Max size of the decoded image.
+ *       Bigger images are scaled down, to limit memory usage
+ */
+const MAX_SIZE: number = 1024
+
+export default class TextureSampler {
+  /**
+   * @type {THREE.Texture}
+   */
+  readonly #texture: THREE.Texture
+
+  /**
+   * @type {ImageData}
+   */
+  readonly #imageData: ImageData
+
+  /**
+   * @type {THREE.Vector2}
+   */
+  readonly #uv: THREE.Vector2 = new THREE.Vector2()
+
+  /**
+   * Constructor
+   *
+   * @param {THREE.Texture} texture
+   * @param {ImageData}     imageData
+   */
+  constructor(texture: THREE.Texture, imageData: ImageData) {
+    this.#texture = texture
+    this.#imageData = imageData
+
+    this.#texture.updateMatrix()
+  }
+
+  /**
+   * Create sampler from a texture
+   *
+   * @param   {THREE.Texture}         texture
+   * @returns {TextureSampler | null}
+   * @note    If the texture image can not be decoded, `null` is returned
+   */
+  static create(texture: THREE.Texture): TextureSampler | null {
+    const image = texture.image as CanvasImageSource & {
+      width?: number
+      height?: number
+    }
+    if (!image?.width || !image?.height) {
+      return null
+    }
+
+    const scale = Math.min(1, MAX_SIZE / Math.max(image.width, image.height))
+    const width = Math.max(1, Math.round(image.width * scale))
+    const height = Math.max(1, Math.round(image.height * scale))
+
+    try {
+      const canvas =
+        typeof OffscreenCanvas !== 'undefined'
+          ? new OffscreenCanvas(width, height)
+          : Object.assign(document.createElement('canvas'), {
+              width: width,
+              height: height,
+            })
+      const context = canvas.getContext('2d') as
+        | CanvasRenderingContext2D
+        | OffscreenCanvasRenderingContext2D
+        | null
+      if (!context) {
+        return null
+      }
+
+      context.drawImage(image, 0, 0, width, height)
+      return new TextureSampler(
+        texture,
+        context.getImageData(0, 0, width, height),
+      )
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Sample texture color
+   *
+   * @param   {THREE.Vector2} uv
+   * @param   {THREE.Color}   target
+   * @returns {THREE.Color}
+   * @note    Texture transform, wrapping and orientation are applied
+   *          to the UV, as they are applied when the texture is rendered.
+   *          Color is converted from the texture color space
+   *          to the working color space
+   */
+  sample(uv: THREE.Vector2, target: THREE.Color): THREE.Color {
+    this.#texture.transformUv(this.#uv.copy(uv))
+
+    const {width, height, data} = this.#imageData
+    const x = Math.min(Math.floor(this.#uv.x * width), width - 1)
+    const y = Math.min(Math.floor(this.#uv.y * height), height - 1)
+    const i = (Math.max(0, y) * width + Math.max(0, x)) * 4
+
+    return target.setRGB(
+      data[i] / 255,
+      data[i + 1] / 255,
+      data[i + 2] / 255,
+      this.#texture.colorSpace,
+    )
+  }
+}
@@ -18,11 +18,14 @@ export default class ModelManager {
   /**
    * @type {{
    *   src: {
-   *     highPoly: string;
-   *     lowPoly : string;
+   *     highPoly       : ModelInput;
+   *     lowPoly       ?: ModelInput;
+   *     proxyTriangles?: number;
+   *     meshes        ?: string[];
+   *     format        ?: 'gltf' | 'glb' | 'ply' | 'pcd' | 'obj' | 'stl';
    *   };
-   *   width  : number;
-   *   height : number;
+   *   width  : number | 'container';
+   *   height : number | 'container';
    *   camera?: {
    *     position?: {
    *       x: number;
@@ -35,13 +38,18 @@ export default class ModelManager {
    *     isControlsEnabled?: boolean;
    *   };
    *   point?: {
-   *     size  ?: number;
-   *     motion?: {
+   *     size    ?: number;
+   *     motion  ?: {
    *       frequency?: number;
    *       strength ?: number;
    *       ratio    ?: number;
    *       lifeDecay?: number;
-   *     }
+   *     };
+   *     sampling?: {
+   *       mode ?: 'vertices' | 'surface';
+   *       count?: number;
+   *     };
+   *     color   ?: string | number;
    *   }
    * }[]}
    */
@@ -50,11 +58,14 @@ export default class ModelManager {
   /**
    * @type {{
    *   src: {
-   *     highPoly: string;
-   *     lowPoly : string;
+   *     highPoly       : ModelInput;
+   *     lowPoly       ?: ModelInput;
+   *     proxyTriangles?: number;
+   *     meshes        ?: string[];
+   *     format        ?: 'gltf' | 'glb' | 'ply' | 'pcd' | 'obj' | 'stl';
    *   };
-   *   width  : number;
-   *   height : number;
+   *   width  : number | 'container';
+   *   height : number | 'container';
    *   camera?: {
    *     position?: {
    *       x: number;
@@ -67,13 +78,18 @@ export default class ModelManager {
    *     isControlsEnabled?: boolean;
    *   };
    *   point?: {
-   *     size  ?: number;
-   *     motion?: {
+   *     size    ?: number;
+   *     motion  ?: {
    *       frequency?: number;
    *       strength ?: number;
    *       ratio    ?: number;
    *       lifeDecay?: number;
-   *     }
+   *     };
+   *     sampling?: {
+   *       mode ?: 'vertices' | 'surface';
+   *       count?: number;
+   *     };
+   *     color   ?: string | number;
    *   }
    * }}
    */
@@ -82,23 +98,33 @@ export default class ModelManager {
   /**
    * @type {number}
    */
-  #currentBreakpoint: number
+  currentBreakpoint: number
 
   /**
    * @type {number[]}
    */
   #breakpoints: number[]
 
+  /**
+   * @type {number | null}
+   * @note Breakpoint used regardless of the window size.
+   *       It is used to simulate breakpoints (i.e.: from the debug panel)
+   */
+  #forcedBreakpoint: number | null = null
+
   /**
    * Constructor
    *
    * @param {{
    *             src: {
-   *               highPoly: string;
-   *               lowPoly : string;
+   *               highPoly       : ModelInput;
+   *               lowPoly       ?: ModelInput;
+   *               proxyTriangles?: number;
+   *               meshes        ?: string[];
+   *               format        ?: 'gltf' | 'glb' | 'ply' | 'pcd' | 'obj' | 'stl';
    *             };
-   *             width  : number;
-   *             height : number;
+   *             width  : number | 'container';
+   *             height : number | 'container';
    *             camera?: {
    *               position?: {
    *                 x: number;
@@ -111,13 +137,18 @@ export default class ModelManager {
    *               isControlsEnabled?: boolean;
    *             };
    *             point?: {
-   *               size  ?: number;
-   *               motion?: {
+   *               size    ?: number;
+   *               motion  ?: {
    *                 frequency?: number;
    *                 strength ?: number;
    *                 ratio    ?: number;
    *                 lifeDecay?: number;
-   *               }
+   *               };
+   *               sampling?: {
+   *                 mode ?: 'vertices' | 'surface';
+   *                 count?: number;
+   *               };
+   *               color   ?: string | number;
    *             }
    *         }[]} models
    * @throws {Error}
@@ -142,21 +173,59 @@ export default class ModelManager {
   update(): boolean {
     const width = window.innerWidth
 
-    const currentBreakpoint = this.#breakpoints.reduce(
-      (max, breakpoint) =>
-        breakpoint <= width && breakpoint > max ? breakpoint : max,
-      DEFAULT_MODEL_BREAKPOINT,
-    )
+    const currentBreakpoint =
+      this.#forcedBreakpoint ??
+      this.#breakpoints.reduce(
+        (max, breakpoint) =>
+          breakpoint <= width && breakpoint > max ? breakpoint : max,
+        DEFAULT_MODEL_BREAKPOINT,
+      )
 
-    if (currentBreakpoint !== this.#currentBreakpoint) {
-      this.#currentBreakpoint = currentBreakpoint
-      this.currentModel = this.models[this.#currentBreakpoint]
+    if (currentBreakpoint !== this.currentBreakpoint) {
+      this.currentBreakpoint = currentBreakpoint
+      this.currentModel = this.models[this.currentBreakpoint]
       return true
     }
 
     return false
   }
 
+  /**
+   * Get breakpoints
+   *
+   * @returns {number[]}
+   */
+  getBreakpoints(): number[] {
+    return [...this.#breakpoints]
+  }
+
+  /**
+   * Get forced breakpoint
+   *
+   * @returns {number | null}
+   */
+  getForcedBreakpoint(): number | null {
+    return this.#forcedBreakpoint
+  }
+
+  /**
+   * Force breakpoint
+   *
+   * @param   {number | null} breakpoint
+   * @returns {boolean}
+   * @note    If `null` is given, the breakpoint is selected
+   *          from the window size again.
+   *          It is returned if the breakpoint changed
+   */
+  forceBreakpoint(breakpoint: number | null): boolean {
+    this.#forcedBreakpoint =
+      breakpoint !== null && this.#breakpoints.includes(breakpoint)
+        ? breakpoint
+        : null
+
+    return this.update()
+  }
+
   /**
    * Init breakpoints from models
    *
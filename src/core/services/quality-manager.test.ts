@@ -0,0 +1,142 @@
+/**
+ * @description Quality manager tests
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ */
+import {describe, expect, it} from 'vitest'
+import QualityManager from './quality-manager.js'
+import type {QualityTier} from '../types'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Interval (in milliseconds) between animation frames
+ *       of the simulated display
+ */
+const VSYNC_INTERVAL: number = 4
+
+/**
+ * @note Tier change done during a simulation
+ */
+interface TierChange {
+  timestamp: number
+  tier: QualityTier
+  previousTier: QualityTier
+}
+
+/**
+ * Simulate the render loop of a device
+ *
+ * @param   {(tier: QualityTier, frame: number) => number} getCost
+ * @param   {number}                                        duration
+ * @returns {{tier: QualityTier; changes: TierChange[]}}
+ * @note    Render cost (in milliseconds) depends on the tier
+ *          and the rendered frame.
+ *          Rendered frames block the loop until the next animation frame
+ *          after their cost, while skipped frames only wait for the next one
+ */
+const simulate = (
+  getCost: (tier: QualityTier, frame: number) => number,
+  duration: number,
+): {tier: QualityTier; changes: TierChange[]} => {
+  const changes: TierChange[] = []
+  let timestamp = 0
+  let frame = 0
+  const qualityManager = new QualityManager((tier, previousTier) =>
+    changes.push({
+      timestamp: timestamp,
+      tier: tier,
+      previousTier: previousTier,
+    }),
+  )
+
+  while (timestamp < duration) {
+    if (qualityManager.update(timestamp)) {
+      const cost = getCost(qualityManager.getTier(), frame++)
+      timestamp +=
+        Math.max(1, Math.ceil(cost / VSYNC_INTERVAL)) * VSYNC_INTERVAL
+    } else {
+      timestamp += VSYNC_INTERVAL
+    }
+  }
+
+  return {tier: qualityManager.getTier(), changes: changes}
+}
+
+/**
+ * Get the time between consecutive quality upgrades
+ *
+ * @param   {TierChange[]} changes
+ * @returns {number[]}
+ */
+const getUpgradeIntervals = (changes: TierChange[]): number[] => {
+  const timestamps = changes
+    .filter((change) => change.tier.level < change.previousTier.level)
+    .map((change) => change.timestamp)
+
+  return timestamps.slice(1).map((timestamp, i) => timestamp - timestamps[i])
+}
+
+describe('QualityManager', () => {
+  it('starts with the highest quality', () => {
+    expect(new QualityManager(() => {}, 60, 1, 3).getTier()).toEqual({
+      level: 0,
+      dpr: 3,
+      pointRatio: 1,
+      fps: null,
+    })
+  })
+
+  it('lowers quality one tier at a time down to the frame rate cap', () => {
+    const {tier, changes} = simulate(() => 200, 20000)
+
+    expect(changes.map((change) => change.tier)).toEqual([
+      {level: 1, dpr: 1.5, pointRatio: 1, fps: null},
+      {level: 2, dpr: 1, pointRatio: 1, fps: null},
+      {level: 3, dpr: 1, pointRatio: 0.75, fps: null},
+      {level: 4, dpr: 1, pointRatio: 0.5, fps: null},
+      {level: 5, dpr: 1, pointRatio: 0.5, fps: 15},
+    ])
+    expect(tier.level).toBe(5)
+  })
+
+  it('keeps the quality when frames are within the budget', () => {
+    expect(simulate(() => 30, 20000).changes).toEqual([])
+  })
+
+  it('raises quality after several fast windows', () => {
+    const {tier, changes} = simulate(
+      (tier) => (tier.level === 0 && tier.dpr === 2 ? 50 : 10),
+      7000,
+    )
+
+    expect(changes.map((change) => change.tier.level)).toEqual([1, 0])
+    expect(tier.level).toBe(0)
+  })
+
+  it('keeps the frame rate cap when it is not met', () => {
+    const {tier, changes} = simulate(() => 70, 60000)
+
+    expect(changes).toHaveLength(5)
+    expect(tier.level).toBe(5)
+  })
+
+  it('does not measure frames skipped by the frame rate cap', () => {
+    const {tier, changes} = simulate(
+      (tier, frame) => (tier.fps === null || frame % 2 ? 140 : 4),
+      60000,
+    )
+
+    expect(changes).toHaveLength(5)
+    expect(tier.level).toBe(5)
+  })
+
+  it('delays the upgrades of a tier that was too slow', () => {
+    const {changes} = simulate((tier) => (tier.level === 0 ? 50 : 10), 120000)
+    const intervals = getUpgradeIntervals(changes)
+
+    expect(intervals.length).toBeGreaterThanOrEqual(3)
+    for (let i = 1; i < intervals.length; i++) {
+      expect(intervals[i]).toBeGreaterThan(intervals[i - 1])
+    }
+  })
+})
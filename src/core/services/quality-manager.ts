@@ -0,0 +1,343 @@
+/**
+ * @description Quality manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              adaptive quality logic.
+ *              Frame times (intervals between rendered frames)
+ *              are measured in windows. When a window is slower than
+ *              the frame budget, quality is lowered one tier
+ *              (pixel ratio, then point count, then frame rate cap).
+ *              When several consecutive windows are fast enough,
+ *              quality is raised one tier. If a raised tier is too slow,
+ *              the number of windows required to raise it again is doubled,
+ *              so quality does not oscillate between tiers
+ */
+import type {QualityTier} from '../types'
+
+/**
+ * @constant
+ * @type {number}
+ */
+const DEFAULT_TARGET_FPS: number = 30
+
+/**
+ * @constant
+ * @type {number}
+ */
+const DEFAULT_MIN_DPR: number = 1
+
+/**
+ * @constant
+ * @type {number}
+ */
+const DEFAULT_MAX_DPR: number = 2
+
+/**
+ * @constant
+ * @type {number}
+ * @note Duration (in milliseconds) of the window where frame times
+ *       are measured
+ */
+const WINDOW_DURATION: number = 1000
+
+/**
+ * @constant
+ * @type {number}
+ * @note Frame time/budget ratio above which quality is lowered
+ */
+const DOWNGRADE_THRESHOLD: number = 1.2
+
+/**
+ * @constant
+ * @type {number}
+ * @note Frame time/budget ratio below which a window is considered fast
+ */
+const UPGRADE_THRESHOLD: number = 0.8
+
+/**
+ * @constant
+ * @type {number}
+ * @note Frame time/budget ratio below which a window of a capped tier
+ *       is considered fast. Frames of a capped tier can not be faster
+ *       than the cap, so the cap is only lifted when it is steadily met
+ */
+const CAPPED_UPGRADE_THRESHOLD: number = 1.05
+
+/**
+ * @constant
+ * @type {number}
+ * @note Number of consecutive fast windows required to raise quality.
+ *       It is greater than one to avoid oscillating between tiers
+ */
+const UPGRADE_WINDOWS: number = 3
+
+/**
+ * @constant
+ * @type {number}
+ * @note Max number of consecutive fast windows required to raise quality
+ *       (after failed upgrades)
+ */
+const MAX_UPGRADE_WINDOWS: number = 96
+
+/**
+ * @constant
+ * @type {number[]}
+ */
+const POINT_RATIOS: number[] = [0.75, 0.5]
+
+export default class QualityManager {
+  /**
+   * @type {QualityTier[]}
+   */
+  readonly #tiers: QualityTier[]
+
+  /**
+   * @type {number}
+   */
+  #level: number = 0
+
+  /**
+   * @type {number}
+   */
+  readonly #targetFps: number
+
+  /**
+   * @type {(tier: QualityTier, previousTier: QualityTier) => void}
+   */
+  readonly #onChange: (tier: QualityTier, previousTier: QualityTier) => void
+
+  /**
+   * @type {number | null}
+   * @note Last timestamp when a frame was rendered.
+   *       It is used to measure frame times
+   */
+  #lastRenderTimestamp: number | null = null
+
+  /**
+   * @type {number | null}
+   * @note Last timestamp when a frame was rendered,
+   *       aligned to the frame rate cap interval.
+   *       It is used to cap the frame rate
+   */
+  #lastCapTimestamp: number | null = null
+
+  /**
+   * @type {number}
+   */
+  #windowTime: number = 0
+
+  /**
+   * @type {number}
+   */
+  #windowFrames: number = 0
+
+  /**
+   * @type {number}
+   */
+  #fastWindows: number = 0
+
+  /**
+   * @type {number[]}
+   * @note Number of consecutive fast windows required
+   *       to raise quality from every tier
+   */
+  readonly #upgradeWindows: number[]
+
+  /**
+   * @type {number | null}
+   * @note Level that quality was raised from.
+   *       It is kept until the raised tier is measured, so if it is
+   *       too slow, raising quality from that level is delayed
+   */
+  #upgradedLevel: number | null = null
+
+  /**
+   * @type {boolean}
+   * @note The window after a tier change is discarded,
+   *       because it is affected by the change itself
+   *       (i.e.: shader compilation, texture allocation)
+   */
+  #isSettling: boolean = false
+
+  /**
+   * Constructor
+   *
+   * @param {(tier: QualityTier, previousTier: QualityTier) => void} onChange
+   * @param {number}                                                 targetFps
+   * @param {number}                                                 minDpr
+   * @param {number}                                                 maxDpr
+   */
+  constructor(
+    onChange: (tier: QualityTier, previousTier: QualityTier) => void,
+    targetFps: number = DEFAULT_TARGET_FPS,
+    minDpr: number = DEFAULT_MIN_DPR,
+    maxDpr: number = DEFAULT_MAX_DPR,
+  ) {
+    this.#onChange = onChange
+    this.#targetFps = targetFps
+    this.#tiers = this.#createTiers(targetFps, minDpr, Math.max(minDpr, maxDpr))
+    this.#upgradeWindows = this.#tiers.map(() => UPGRADE_WINDOWS)
+  }
+
+  /**
+   * Get current tier
+   *
+   * @returns {QualityTier}
+   */
+  getTier(): QualityTier {
+    return this.#tiers[this.#level]
+  }
+
+  /**
+   * Update
+   *
+   * @param   {number}  timestamp
+   * @returns {boolean}
+   * @note    It is returned if the frame should be rendered
+   *          (it is not if the frame rate is capped)
+   * @note    Only rendered frames are measured, because skipped frames
+   *          do not reflect the rendering cost
+   */
+  update(timestamp: number): boolean {
+    const fps = this.getTier().fps
+    let capTimestamp = timestamp
+    if (fps !== null && this.#lastCapTimestamp !== null) {
+      const interval = 1000 / fps
+      const elapsed = timestamp - this.#lastCapTimestamp
+      if (elapsed < interval) {
+        return false
+      }
+
+      capTimestamp = timestamp - (elapsed % interval)
+    }
+
+    if (this.#lastRenderTimestamp !== null) {
+      this.#measure(timestamp - this.#lastRenderTimestamp)
+    }
+    this.#lastRenderTimestamp = timestamp
+    this.#lastCapTimestamp = capTimestamp
+
+    return true
+  }
+
+  /**
+   * Reset measurements
+   *
+   * @returns {void}
+   * @note    It should be called when the render loop starts,
+   *          so the time while it was stopped is not measured
+   */
+  reset(): void {
+    this.#lastRenderTimestamp = null
+    this.#lastCapTimestamp = null
+    this.#windowTime = 0
+    this.#windowFrames = 0
+    this.#fastWindows = 0
+  }
+
+  /**
+   * Measure frame time
+   *
+   * @param   {number} frameTime
+   * @returns {void}
+   * @note    Frame budget is the frame rate cap interval
+   *          (or the target one, if the tier is not capped)
+   */
+  #measure(frameTime: number): void {
+    this.#windowTime += frameTime
+    this.#windowFrames++
+    if (this.#windowTime < WINDOW_DURATION) {
+      return
+    }
+
+    const average = this.#windowTime / this.#windowFrames
+    this.#windowTime = 0
+    this.#windowFrames = 0
+
+    if (this.#isSettling) {
+      this.#isSettling = false
+      return
+    }
+
+    const fps = this.getTier().fps
+    const budget = 1000 / (fps ?? this.#targetFps)
+    const upgradeThreshold =
+      fps === null ? UPGRADE_THRESHOLD : CAPPED_UPGRADE_THRESHOLD
+    if (average > budget * DOWNGRADE_THRESHOLD) {
+      this.#fastWindows = 0
+      if (this.#upgradedLevel === this.#level + 1) {
+        this.#upgradeWindows[this.#upgradedLevel] = Math.min(
+          this.#upgradeWindows[this.#upgradedLevel] * 2,
+          MAX_UPGRADE_WINDOWS,
+        )
+      }
+      this.#upgradedLevel = null
+      this.#setLevel(this.#level + 1)
+      return
+    }
+
+    this.#upgradedLevel = null
+    if (average < budget * upgradeThreshold) {
+      if (++this.#fastWindows >= this.#upgradeWindows[this.#level]) {
+        this.#fastWindows = 0
+        this.#upgradedLevel = this.#level
+        this.#setLevel(this.#level - 1)
+      }
+    } else {
+      this.#fastWindows = 0
+    }
+  }
+
+  /**
+   * Set tier level
+   *
+   * @param   {number} level
+   * @returns {void}
+   */
+  #setLevel(level: number): void {
+    level = Math.min(Math.max(0, level), this.#tiers.length - 1)
+    if (level === this.#level) {
+      return
+    }
+
+    const previousTier = this.getTier()
+    this.#level = level
+    this.#isSettling = true
+    this.#onChange(this.getTier(), previousTier)
+  }
+
+  /**
+   * Create tiers
+   *
+   * @param   {number}        targetFps
+   * @param   {number}        minDpr
+   * @param   {number}        maxDpr
+   * @returns {QualityTier[]}
+   * @note    Tiers are sorted from the highest to the lowest quality
+   * @note    Last tier caps the frame rate to half the target one,
+   *          because a cap at the target frame rate would never apply
+   *          (quality is only lowered below it)
+   */
+  #createTiers(
+    targetFps: number,
+    minDpr: number,
+    maxDpr: number,
+  ): QualityTier[] {
+    const dprs = [...new Set([maxDpr, (maxDpr + minDpr) / 2, minDpr])]
+    const tiers: Omit<QualityTier, 'level'>[] = dprs.map((dpr) => ({
+      dpr: dpr,
+      pointRatio: 1,
+      fps: null,
+    }))
+    for (const pointRatio of POINT_RATIOS) {
+      tiers.push({dpr: minDpr, pointRatio: pointRatio, fps: null})
+    }
+    tiers.push({
+      dpr: minDpr,
+      pointRatio: POINT_RATIOS[POINT_RATIOS.length - 1],
+      fps: targetFps / 2,
+    })
+
+    return tiers.map((tier, level) => ({level: level, ...tier}))
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @description Random manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              generation of random values.
+ *              If a seed is given, values are generated by a seeded
+ *              pseudo-random number generator, so the same seed always
+ *              produces the same output. Otherwise, `Math.random()` is used.
+ *              Every random value generated by the library should be
+ *              obtained from this class
+ * {@link       https://github.com/bryc/code/blob/master/jshash/PRNGs.md#mulberry32}
+ */
+export default class RandomManager {
+  /**
+   * @type {number | null}
+   */
+  #state: number | null
+
+  /**
+   * Constructor
+   *
+   * @param {number} seed
+   */
+  constructor(seed?: number) {
+    this.#state = seed === undefined ? null : seed >>> 0
+  }
+
+  /**
+   * Generate random value between `0` (inclusive) and `1` (exclusive)
+   *
+   * @returns {number}
+   */
+  random(): number {
+    if (this.#state === null) {
+      return Math.random()
+    }
+
+    this.#state = (this.#state + 0x6d2b79f5) >>> 0
+    let t = this.#state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
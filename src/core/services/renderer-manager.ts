@@ -6,6 +6,12 @@
  */
 import * as THREE from 'three'
 import {OrbitControls} from 'three/addons/controls/OrbitControls.js'
+import type {FolderApi} from 'tweakpane'
+import type DebugManager from './debug-manager.js'
+import {
+  acquireSharedRenderer,
+  releaseSharedRenderer,
+} from './renderer-manager/shared-renderer.js'
 
 /**
  * @constant
@@ -37,6 +43,15 @@ export default class RendererManager {
    */
   renderer: THREE.WebGLRenderer
 
+  /**
+   * @type {HTMLCanvasElement}
+   * @note Canvas where the scene is displayed.
+   *       If the renderer is shared, it is a 2D canvas where the
+   *       shared renderer output is copied.
+   *       Otherwise, it is the renderer canvas
+   */
+  canvas: HTMLCanvasElement
+
   /**
    * @type {THREE.PerspectiveCamera}
    */
@@ -50,42 +65,74 @@ export default class RendererManager {
   /**
    * @type {number}
    */
-  readonly #width: number
+  #width: number
 
   /**
    * @type {number}
    */
-  readonly #height: number
+  #height: number
 
   /**
    * @type {number}
    */
   #dpr: number
 
+  /**
+   * @type {boolean}
+   */
+  readonly #isShared: boolean
+
+  /**
+   * @type {CanvasRenderingContext2D | null}
+   */
+  #context: CanvasRenderingContext2D | null = null
+
   /**
    * @type {OrbitControls | null}
    */
   #cameraControls: OrbitControls | null = null
 
+  /**
+   * @type {THREE.Color}
+   */
+  #clearColor: THREE.Color = new THREE.Color(0x000000)
+
+  /**
+   * @type {number}
+   */
+  #clearAlpha: number = 0
+
+  /**
+   * @type {FolderApi | null}
+   * @note Camera debug folder.
+   *       It is refreshed when the camera is moved with the controls
+   */
+  #cameraFolder: FolderApi | null = null
+
+  /**
+   * @type {() => void}
+   */
+  #boundHandleControlsChange: () => void
+
   /**
    * @type {THREE.Vector3}
    */
-  readonly #cameraPosition: THREE.Vector3
+  #cameraPosition: THREE.Vector3
 
   /**
    * @type {number}
    */
-  readonly #cameraFov: number
+  #cameraFov: number
 
   /**
    * @type {number}
    */
-  readonly #cameraNear: number
+  #cameraNear: number
 
   /**
    * @type {number}
    */
-  readonly #cameraFar: number
+  #cameraFar: number
 
   /**
    * Constructor
@@ -97,6 +144,7 @@ export default class RendererManager {
    * @param {number}        cameraNear
    * @param {number}        cameraFar
    * @param {boolean}       isCameraControlsEnabled
+   * @param {boolean}       isShared
    */
   constructor(
     width: number,
@@ -110,13 +158,16 @@ export default class RendererManager {
     cameraNear: number = DEFAULT_CAMERA_NEAR,
     cameraFar: number = DEFAULT_CAMERA_FAR,
     isCameraControlsEnabled: boolean = true,
+    isShared: boolean = false,
   ) {
+    this.#isShared = isShared
     this.#width = width
     this.#height = height
     this.#cameraPosition = cameraPosition
     this.#cameraFov = cameraFov
     this.#cameraNear = cameraNear
     this.#cameraFar = cameraFar
+    this.#boundHandleControlsChange = this.#handleControlsChange.bind(this)
 
     this.#initScene()
     this.#initCamera()
@@ -138,7 +189,137 @@ export default class RendererManager {
       this.#cameraControls.update(deltaTime)
     }
 
-    this.renderer.render(this.scene, this.camera)
+    this.#render()
+  }
+
+  /**
+   * Capture the current frame
+   *
+   * @param   {number}            scale
+   * @returns {HTMLCanvasElement}
+   * @note    Scene is rendered with the given scale applied to the pixel
+   *          ratio, and it is copied to a new canvas in the same task of
+   *          the render, so it is not required to preserve the drawing buffer
+   */
+  capture(scale: number = 1): HTMLCanvasElement {
+    const dpr = this.#dpr
+    this.#applyPixelRatio(dpr * scale)
+    this.#render()
+
+    const canvas = document.createElement('canvas')
+    canvas.width = this.canvas.width
+    canvas.height = this.canvas.height
+    canvas.getContext('2d')?.drawImage(this.canvas, 0, 0)
+
+    if (scale !== 1) {
+      this.#applyPixelRatio(dpr)
+      this.#render()
+    }
+
+    return canvas
+  }
+
+  /**
+   * Set camera
+   *
+   * @param   {THREE.Vector3} position
+   * @param   {number}        fov
+   * @param   {number}        near
+   * @param   {number}        far
+   * @param   {boolean}       isControlsEnabled
+   * @returns {void}
+   * @note    Camera is updated in place, so it is not required to
+   *          re-create the renderer.
+   *          Settings that are not given are reset to their default values
+   */
+  setCamera(
+    position: THREE.Vector3 = new THREE.Vector3(0, 0, DEFAULT_CAMERA_FAR * 0.5),
+    fov: number = DEFAULT_CAMERA_FOV,
+    near: number = DEFAULT_CAMERA_NEAR,
+    far: number = DEFAULT_CAMERA_FAR,
+    isControlsEnabled: boolean = true,
+  ): void {
+    this.#cameraPosition = position
+    this.#cameraFov = fov
+    this.#cameraNear = near
+    this.#cameraFar = far
+
+    this.camera.position.copy(this.#cameraPosition)
+    this.camera.fov = this.#cameraFov
+    this.camera.near = this.#cameraNear
+    this.camera.far = this.#cameraFar
+    this.camera.updateProjectionMatrix()
+
+    this.#setCameraControlsEnabled(isControlsEnabled)
+  }
+
+  /**
+   * Set clear color
+   *
+   * @param   {THREE.ColorRepresentation} color
+   * @param   {number}                    alpha
+   * @returns {void}
+   * @note    If the renderer is shared, the clear color is applied
+   *          before each render, so it only affects this instance
+   */
+  setClearColor(color: THREE.ColorRepresentation, alpha: number): void {
+    this.#clearColor.set(color)
+    this.#clearAlpha = alpha
+
+    if (!this.#isShared) {
+      this.renderer.setClearColor(this.#clearColor, this.#clearAlpha)
+    }
+  }
+
+  /**
+   * Set size
+   *
+   * @param   {number} width
+   * @param   {number} height
+   * @returns {void}
+   * @note    Renderer and camera are updated in place,
+   *          so it is not required to re-create them
+   */
+  setSize(width: number, height: number): void {
+    if (width === this.#width && height === this.#height) {
+      return
+    }
+
+    this.#width = width
+    this.#height = height
+
+    this.camera.aspect = this.#width / this.#height
+    this.camera.updateProjectionMatrix()
+
+    if (this.#isShared) {
+      this.#setCanvasSize()
+    } else {
+      this.renderer.setSize(this.#width, this.#height)
+    }
+  }
+
+  /**
+   * Get pixel ratio
+   *
+   * @returns {number}
+   */
+  getPixelRatio(): number {
+    return this.#dpr
+  }
+
+  /**
+   * Set pixel ratio
+   *
+   * @param   {number} dpr
+   * @returns {void}
+   * @note    It is limited by the device pixel ratio,
+   *          because a higher resolution is not visible
+   */
+  setPixelRatio(dpr: number): void {
+    dpr = Math.min(dpr, window.devicePixelRatio, MAX_DPR)
+    if (dpr !== this.#dpr) {
+      this.#applyPixelRatio(dpr)
+    }
   }
 
   /**
@@ -151,12 +332,24 @@ export default class RendererManager {
     this.renderer.compile(this.scene, this.camera)
   }
 
+  /**
+   * Enable debug mode
+   *
+   * @param   {DebugManager} debugManager
+   * @returns {void}
+   */
+  debug(debugManager: DebugManager): void {
+    this.#debugCamera(debugManager)
+    this.#debugRenderer(debugManager)
+  }
+
   /**
    * Dispose
    *
    * @returns {void}
    */
   dispose(): void {
+    this.#setCameraControlsEnabled(false)
     this.#disposeScene()
     this.#disposeRenderer()
   }
@@ -178,8 +371,220 @@ export default class RendererManager {
    * @returns {void}
    */
   #disposeRenderer(): void {
-    this.renderer.domElement.remove()
-    this.renderer.dispose()
+    this.canvas.remove()
+
+    if (this.#isShared) {
+      releaseSharedRenderer()
+    } else {
+      this.renderer.dispose()
+    }
+  }
+
+  /**
+   * Add camera debug folder
+   *
+   * @param   {DebugManager} debugManager
+   * @returns {void}
+   */
+  #debugCamera(debugManager: DebugManager): void {
+    const cameraFolder = debugManager.addFolder({
+      title: 'Camera',
+    })
+    this.#cameraFolder = cameraFolder
+
+    debugManager
+      .addBinding('position', this.camera.position, undefined, cameraFolder)
+      .on('change', () => this.#cameraControls?.update())
+
+    debugManager
+      .addBindingWithOnChange(
+        this.camera,
+        'fov',
+        'fov',
+        {min: 1, max: 179, step: 1},
+        cameraFolder,
+      )
+      .on('change', () => this.camera.updateProjectionMatrix())
+
+    debugManager
+      .addBindingWithOnChange(
+        this.camera,
+        'near',
+        'near',
+        {min: 0.01, max: 10, step: 0.01},
+        cameraFolder,
+      )
+      .on('change', () => this.camera.updateProjectionMatrix())
+
+    debugManager
+      .addBindingWithOnChange(
+        this.camera,
+        'far',
+        'far',
+        {min: 1, max: 5000, step: 1},
+        cameraFolder,
+      )
+      .on('change', () => this.camera.updateProjectionMatrix())
+
+    debugManager
+      .addBinding('controls', this.#cameraControls !== null, {}, cameraFolder)
+      .on('change', (e) => this.#setCameraControlsEnabled(e.value))
+  }
+
+  /**
+   * Add renderer debug folder
+   *
+   * @param   {DebugManager} debugManager
+   * @returns {void}
+   */
+  #debugRenderer(debugManager: DebugManager): void {
+    const rendererFolder = debugManager.addFolder({
+      title: 'Renderer',
+    })
+
+    debugManager
+      .addBinding(
+        'clear-color',
+        `#${this.#clearColor.getHexString()}`,
+        {},
+        rendererFolder,
+      )
+      .on('change', (e) => this.setClearColor(e.value, this.#clearAlpha))
+
+    debugManager
+      .addBinding(
+        'clear-alpha',
+        this.#clearAlpha,
+        {min: 0, max: 1, step: 0.01},
+        rendererFolder,
+      )
+      .on('change', (e) => this.setClearColor(this.#clearColor, e.value))
+
+    debugManager
+      .addBinding(
+        'dpr',
+        this.#dpr,
+        {min: 0.5, max: MAX_DPR, step: 0.25},
+        rendererFolder,
+      )
+      .on('change', (e) => this.setPixelRatio(e.value))
+  }
+
+  /**
+   * Handle camera controls change
+   *
+   * @returns {void}
+   * @note    Camera debug folder is refreshed,
+   *          so it shows the position set by the controls
+   */
+  #handleControlsChange(): void {
+    this.#cameraFolder?.refresh()
+  }
+
+  /**
+   * Set camera controls enabled
+   *
+   * @param   {boolean} isEnabled
+   * @returns {void}
+   */
+  #setCameraControlsEnabled(isEnabled: boolean): void {
+    if (isEnabled && !this.#cameraControls) {
+      this.#initCameraControls()
+    } else if (!isEnabled && this.#cameraControls) {
+      this.#cameraControls.removeEventListener(
+        'change',
+        this.#boundHandleControlsChange,
+      )
+      this.#cameraControls.dispose()
+      this.#cameraControls = null
+    }
+  }
+
+  /**
+   * Render
+   *
+   * @returns {void}
+   */
+  #render(): void {
+    if (this.#isShared) {
+      this.#renderShared()
+    } else {
+      this.renderer.render(this.scene, this.camera)
+    }
+  }
+
+  /**
+   * Apply pixel ratio
+   *
+   * @param   {number} dpr
+   * @returns {void}
+   */
+  #applyPixelRatio(dpr: number): void {
+    this.#dpr = dpr
+    if (this.#isShared) {
+      this.#setCanvasSize()
+    } else {
+      this.renderer.setPixelRatio(this.#dpr)
+    }
+  }
+
+  /**
+   * Render with the shared renderer
+   *
+   * @returns {void}
+   * @note    Scene is rendered in the bottom-left corner of the shared
+   *          renderer (WebGL viewport origin), and then it is copied
+   *          to the instance canvas.
+   *          The copy is done in the same task of the render, so it is not
+   *          required to preserve the drawing buffer
+   */
+  #renderShared(): void {
+    const source = this.renderer.domElement
+    const width = this.canvas.width
+    const height = this.canvas.height
+
+    if (source.width < width || source.height < height) {
+      this.renderer.setSize(
+        Math.max(source.width, width),
+        Math.max(source.height, height),
+        false,
+      )
+    }
+
+    this.renderer.setClearColor(this.#clearColor, this.#clearAlpha)
+    this.renderer.setViewport(0, 0, width, height)
+    this.renderer.setScissor(0, 0, width, height)
+    this.renderer.setScissorTest(true)
+    this.renderer.render(this.scene, this.camera)
+    this.renderer.setScissorTest(false)
+
+    this.#context?.clearRect(0, 0, width, height)
+    this.#context?.drawImage(
+      source,
+      0,
+      source.height - height,
+      width,
+      height,
+      0,
+      0,
+      width,
+      height,
+    )
+  }
+
+  /**
+   * Set canvas size
+   *
+   * @returns {void}
+   * @note    It is used when the renderer is shared.
+   *          The 2D canvas works with device pixels,
+   *          and it is displayed with the CSS size
+   */
+  #setCanvasSize(): void {
+    this.canvas.width = Math.floor(this.#width * this.#dpr)
+    this.canvas.height = Math.floor(this.#height * this.#dpr)
+    this.canvas.style.width = `${this.#width}px`
+    this.canvas.style.height = `${this.#height}px`
   }
 
   /**
@@ -188,11 +593,12 @@ export default class RendererManager {
    * @returns {void}
    */
   #initCameraControls(): void {
-    this.#cameraControls = new OrbitControls(
-      this.camera,
-      this.renderer.domElement,
-    )
+    this.#cameraControls = new OrbitControls(this.camera, this.canvas)
     this.#cameraControls.enableDamping = true
+    this.#cameraControls.addEventListener(
+      'change',
+      this.#boundHandleControlsChange,
+    )
   }
 
   /**
@@ -208,6 +614,14 @@ export default class RendererManager {
       antialias = true
     }
 
+    if (this.#isShared) {
+      this.renderer = acquireSharedRenderer(antialias)
+      this.canvas = document.createElement('canvas')
+      this.#context = this.canvas.getContext('2d')
+      this.#setCanvasSize()
+      return
+    }
+
     const canvas = document.createElement('canvas')
     this.renderer = new THREE.WebGLRenderer({
       antialias: antialias,
@@ -216,6 +630,7 @@ export default class RendererManager {
     this.renderer.setClearAlpha(0)
     this.renderer.setSize(this.#width, this.#height)
     this.renderer.setPixelRatio(this.#dpr)
+    this.canvas = this.renderer.domElement
   }
 
   /**
@@ -0,0 +1,58 @@
+/**
+ * @description Shared renderer
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Browsers limit the number of live WebGL contexts.
+ *              That is why it is possible to share a single offscreen
+ *              renderer between instances.
+ *              The renderer is created when it is acquired for the first
+ *              time, and it is disposed when it is not used anymore
+ */
+import * as THREE from 'three'
+
+/**
+ * @type {THREE.WebGLRenderer | null}
+ */
+let renderer: THREE.WebGLRenderer | null = null
+
+/**
+ * @type {number}
+ */
+let references: number = 0
+
+/**
+ * Acquire shared renderer
+ *
+ * @param   {boolean} antialias
+ * @returns {THREE.WebGLRenderer}
+ * @note    The shared renderer works with device pixels.
+ *          That is why its pixel ratio is always `1`
+ */
+export const acquireSharedRenderer = (
+  antialias: boolean,
+): THREE.WebGLRenderer => {
+  if (!renderer) {
+    renderer = new THREE.WebGLRenderer({
+      antialias: antialias,
+      canvas: document.createElement('canvas'),
+    })
+    renderer.setClearAlpha(0)
+    renderer.setPixelRatio(1)
+  }
+
+  references++
+  return renderer
+}
+
+/**
+ * Release shared renderer
+ *
+ * @returns {void}
+ */
+export const releaseSharedRenderer = (): void => {
+  references = Math.max(0, references - 1)
+
+  if (!references && renderer) {
+    renderer.dispose()
+    renderer = null
+  }
+}
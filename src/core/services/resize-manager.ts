@@ -0,0 +1,44 @@
+/**
+ * @description Resize manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              logic used to observe the size of an element
+ */
+export default class ResizeManager {
+  /**
+   * @type {ResizeObserver | null}
+   */
+  #observer: ResizeObserver | null = null
+
+  /**
+   * Constructor
+   *
+   * @param {HTMLElement}                             element
+   * @param {(width: number, height: number) => void} onResize
+   * @note  If `ResizeObserver` is not supported,
+   *        the element size is not observed
+   */
+  constructor(
+    element: HTMLElement,
+    onResize: (width: number, height: number) => void,
+  ) {
+    if (typeof ResizeObserver === 'undefined') {
+      return
+    }
+
+    this.#observer = new ResizeObserver((entries) => {
+      const entry = entries[entries.length - 1]
+      onResize(entry.contentRect.width, entry.contentRect.height)
+    })
+    this.#observer.observe(element)
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#observer?.disconnect()
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * @description Stats manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              performance measurement logic.
+ *              CPU times are measured for the whole frame and for its
+ *              sections (GPGPU compute and render). If the
+ *              `EXT_disjoint_timer_query_webgl2` extension is available,
+ *              GPU times of the sections are also measured.
+ *              GPU results are available some frames later, so pending
+ *              queries are polled on every frame
+ * {@link       https://registry.khronos.org/webgl/extensions/EXT_disjoint_timer_query_webgl2/}
+ */
+import * as THREE from 'three'
+
+/**
+ * @constant
+ * @type {number}
+ * @note Smoothing factor of the measured times
+ *       (exponential moving average)
+ */
+const SMOOTHING: number = 0.1
+
+/**
+ * @constant
+ * @type {number}
+ * @note Duration (in milliseconds) of the window where frames
+ *       are counted to calculate the FPS
+ */
+const FPS_WINDOW_DURATION: number = 500
+
+/**
+ * @constant
+ * @type {number}
+ * @note Bytes of a texel of a float RGBA texture
+ */
+const FLOAT_TEXEL_BYTES: number = 16
+
+/**
+ * @constant
+ * @type {number}
+ * @note Number of GPGPU textures: two render targets (ping-pong)
+ *       and the texture with the initial data
+ */
+const GPGPU_TEXTURES: number = 3
+
+/**
+ * @note Frame sections that are measured
+ */
+type Section = 'compute' | 'render'
+
+/**
+ * @note Timer query extension.
+ *       It is not included in the DOM types
+ */
+interface TimerQueryExtension {
+  TIME_ELAPSED_EXT: number
+  GPU_DISJOINT_EXT: number
+}
+
+/**
+ * @note Measured stats.
+ *       Times are expressed in milliseconds and memory in megabytes.
+ *       GPU times are `-1` when they can not be measured
+ */
+export interface Stats {
+  fps: number
+  frameTime: number
+  computeTime: number
+  gpuComputeTime: number
+  gpuRenderTime: number
+  drawCalls: number
+  geometries: number
+  textures: number
+  points: number
+  textureSize: number
+  memory: number
+}
+
+export default class StatsManager {
+  /**
+   * @type {Stats}
+   */
+  readonly stats: Stats = {
+    fps: 0,
+    frameTime: 0,
+    computeTime: 0,
+    gpuComputeTime: -1,
+    gpuRenderTime: -1,
+    drawCalls: 0,
+    geometries: 0,
+    textures: 0,
+    points: 0,
+    textureSize: 0,
+    memory: 0,
+  }
+
+  /**
+   * @type {THREE.WebGLRenderer}
+   */
+  readonly #renderer: THREE.WebGLRenderer
+
+  /**
+   * @type {WebGL2RenderingContext}
+   */
+  readonly #gl: WebGL2RenderingContext
+
+  /**
+   * @type {TimerQueryExtension | null}
+   */
+  readonly #ext: TimerQueryExtension | null
+
+  /**
+   * @type {{section: Section; query: WebGLQuery}[]}
+   */
+  #queries: {section: Section; query: WebGLQuery}[] = []
+
+  /**
+   * @type {WebGLQuery | null}
+   */
+  #activeQuery: WebGLQuery | null = null
+
+  /**
+   * @type {number}
+   */
+  #frameStart: number = 0
+
+  /**
+   * @type {number}
+   */
+  #sectionStart: number = 0
+
+  /**
+   * @type {number}
+   */
+  #fpsWindowStart: number = 0
+
+  /**
+   * @type {number}
+   */
+  #fpsWindowFrames: number = 0
+
+  /**
+   * Constructor
+   *
+   * @param {THREE.WebGLRenderer} renderer
+   */
+  constructor(renderer: THREE.WebGLRenderer) {
+    this.#renderer = renderer
+    this.#gl = renderer.getContext() as WebGL2RenderingContext
+    this.#ext = this.#gl.getExtension('EXT_disjoint_timer_query_webgl2')
+  }
+
+  /**
+   * Begin frame measurement
+   *
+   * @returns {void}
+   */
+  begin(): void {
+    this.#frameStart = performance.now()
+    this.#pollQueries()
+  }
+
+  /**
+   * Begin section measurement
+   *
+   * @param   {Section} section
+   * @returns {void}
+   */
+  beginSection(section: Section): void {
+    this.#sectionStart = performance.now()
+
+    if (this.#ext && !this.#activeQuery) {
+      this.#activeQuery = this.#gl.createQuery()
+      if (this.#activeQuery) {
+        this.#gl.beginQuery(this.#ext.TIME_ELAPSED_EXT, this.#activeQuery)
+        this.#queries.push({section: section, query: this.#activeQuery})
+      }
+    }
+  }
+
+  /**
+   * End section measurement
+   *
+   * @param   {Section} section
+   * @returns {void}
+   */
+  endSection(section: Section): void {
+    if (section === 'compute') {
+      this.stats.computeTime = this.#smooth(
+        this.stats.computeTime,
+        performance.now() - this.#sectionStart,
+      )
+    }
+
+    if (this.#ext && this.#activeQuery) {
+      this.#gl.endQuery(this.#ext.TIME_ELAPSED_EXT)
+      this.#activeQuery = null
+    }
+  }
+
+  /**
+   * End frame measurement
+   *
+   * @param   {number} points
+   * @param   {number} textureSize
+   * @returns {void}
+   * @note    Memory estimation only takes into account GPGPU textures,
+   *          because they are the ones that grow with the number of points
+   */
+  end(points: number, textureSize: number): void {
+    const now = performance.now()
+    this.stats.frameTime = this.#smooth(
+      this.stats.frameTime,
+      now - this.#frameStart,
+    )
+
+    this.#fpsWindowFrames++
+    if (now - this.#fpsWindowStart >= FPS_WINDOW_DURATION) {
+      this.stats.fps =
+        (this.#fpsWindowFrames * 1000) / (now - this.#fpsWindowStart)
+      this.#fpsWindowStart = now
+      this.#fpsWindowFrames = 0
+    }
+
+    this.stats.drawCalls = this.#renderer.info.render.calls
+    this.stats.geometries = this.#renderer.info.memory.geometries
+    this.stats.textures = this.#renderer.info.memory.textures
+    this.stats.points = points
+    this.stats.textureSize = textureSize
+    this.stats.memory =
+      (textureSize * textureSize * FLOAT_TEXEL_BYTES * GPGPU_TEXTURES) /
+      (1024 * 1024)
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    for (const {query} of this.#queries) {
+      this.#gl.deleteQuery(query)
+    }
+    this.#queries = []
+    this.#activeQuery = null
+  }
+
+  /**
+   * Poll pending GPU queries
+   *
+   * @returns {void}
+   * @note    If a disjoint operation happened (i.e.: GPU frequency
+   *          changed), results are not reliable, so they are discarded
+   */
+  #pollQueries(): void {
+    if (!this.#ext) {
+      return
+    }
+
+    const isDisjoint = this.#gl.getParameter(this.#ext.GPU_DISJOINT_EXT)
+    while (
+      this.#queries.length &&
+      this.#queries[0].query !== this.#activeQuery
+    ) {
+      const {section, query} = this.#queries[0]
+      if (!this.#gl.getQueryParameter(query, this.#gl.QUERY_RESULT_AVAILABLE)) {
+        break
+      }
+
+      if (!isDisjoint) {
+        const time =
+          this.#gl.getQueryParameter(query, this.#gl.QUERY_RESULT) / 1e6
+        if (section === 'compute') {
+          this.stats.gpuComputeTime = this.#smooth(
+            this.stats.gpuComputeTime,
+            time,
+          )
+        } else {
+          this.stats.gpuRenderTime = this.#smooth(
+            this.stats.gpuRenderTime,
+            time,
+          )
+        }
+      }
+
+      this.#gl.deleteQuery(query)
+      this.#queries.shift()
+    }
+  }
+
+  /**
+   * Smooth value
+   *
+   * @param   {number} previous
+   * @param   {number} value
+   * @returns {number}
+   * @note    If there is not a previous value, the new value is used
+   */
+  #smooth(previous: number, value: number): number {
+    return previous <= 0 ? value : previous + (value - previous) * SMOOTHING
+  }
+}
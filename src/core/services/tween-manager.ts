@@ -0,0 +1,103 @@
+/**
+ * @description Tween manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              logic used to interpolate numeric values over time
+ *              (i.e.: transition the effect settings at runtime).
+ *              It is driven by the app render loop, so tweens advance with
+ *              the same delta time used by the rest of the app
+ */
+
+/**
+ * @constant
+ * @type {(t: number) => number}
+ */
+const DEFAULT_EASING = (t: number): number =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+
+/**
+ * @note Tween that is being executed
+ */
+interface Tween {
+  from: number
+  to: number
+  duration: number
+  elapsed: number
+  easing: (t: number) => number
+  onUpdate: (value: number) => void
+}
+
+export default class TweenManager {
+  /**
+   * @type {Map<string, Tween>}
+   * @note Tweens are indexed by key, so a new tween for the same key
+   *       replaces the previous one instead of fighting with it
+   */
+  #tweens: Map<string, Tween> = new Map()
+
+  /**
+   * Tween a value
+   *
+   * @param   {string}                  key
+   * @param   {number}                  from
+   * @param   {number}                  to
+   * @param   {number}                  duration
+   * @param   {(value: number) => void} onUpdate
+   * @param   {(t: number) => number}   easing
+   * @returns {void}
+   * @note    Duration is expressed in seconds.
+   *          If duration is not positive, the value is applied immediately
+   */
+  tween(
+    key: string,
+    from: number,
+    to: number,
+    duration: number,
+    onUpdate: (value: number) => void,
+    easing: (t: number) => number = DEFAULT_EASING,
+  ): void {
+    this.#tweens.delete(key)
+
+    if (duration <= 0 || from === to) {
+      onUpdate(to)
+      return
+    }
+
+    this.#tweens.set(key, {
+      from: from,
+      to: to,
+      duration: duration,
+      elapsed: 0,
+      easing: easing,
+      onUpdate: onUpdate,
+    })
+  }
+
+  /**
+   * Update
+   *
+   * @param   {number} deltaTime
+   * @returns {void}
+   */
+  update(deltaTime: number): void {
+    for (const [key, tween] of this.#tweens) {
+      tween.elapsed = Math.min(tween.elapsed + deltaTime, tween.duration)
+
+      const progress = tween.easing(tween.elapsed / tween.duration)
+      tween.onUpdate(tween.from + (tween.to - tween.from) * progress)
+
+      if (tween.elapsed >= tween.duration) {
+        this.#tweens.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#tweens.clear()
+  }
+}
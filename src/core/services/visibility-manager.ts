@@ -0,0 +1,111 @@
+/**
+ * @description Visibility manager
+ * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        The idea behind this class is to encapsulate and wrap the
+ *              logic used to know if an element can be seen by the user.
+ *              An element is considered visible when it intersects the
+ *              viewport and the document is not hidden (i.e.: the tab is
+ *              not in the background)
+ */
+export default class VisibilityManager {
+  /**
+   * @type {boolean}
+   */
+  isVisible: boolean = true
+
+  /**
+   * @type {boolean}
+   */
+  #isIntersecting: boolean = true
+
+  /**
+   * @type {IntersectionObserver | null}
+   */
+  #observer: IntersectionObserver | null = null
+
+  /**
+   * @type {(isVisible: boolean) => void}
+   */
+  readonly #onChange: (isVisible: boolean) => void
+
+  /**
+   * @type {() => void}
+   */
+  #boundHandleVisibilityChange: () => void
+
+  /**
+   * Constructor
+   *
+   * @param {HTMLElement}                  element
+   * @param {(isVisible: boolean) => void} onChange
+   */
+  constructor(element: HTMLElement, onChange: (isVisible: boolean) => void) {
+    this.#onChange = onChange
+
+    this.#initObserver(element)
+    this.#initVisibilityChangeHandler()
+  }
+
+  /**
+   * Dispose
+   *
+   * @returns {void}
+   */
+  dispose(): void {
+    this.#observer?.disconnect()
+    document.removeEventListener(
+      'visibilitychange',
+      this.#boundHandleVisibilityChange,
+    )
+  }
+
+  /**
+   * Update visibility
+   *
+   * @returns {void}
+   * @note    The change handler is only executed when visibility changes
+   */
+  #update(): void {
+    const isVisible =
+      this.#isIntersecting && document.visibilityState !== 'hidden'
+
+    if (isVisible !== this.isVisible) {
+      this.isVisible = isVisible
+      this.#onChange(isVisible)
+    }
+  }
+
+  /**
+   * Init visibility change handler
+   *
+   * @returns {void}
+   */
+  #initVisibilityChangeHandler(): void {
+    this.#boundHandleVisibilityChange = this.#update.bind(this)
+    document.addEventListener(
+      'visibilitychange',
+      this.#boundHandleVisibilityChange,
+    )
+  }
+
+  /**
+   * Init observer
+   *
+   * @param   {HTMLElement} element
+   * @returns {void}
+   * @note    If `IntersectionObserver` is not supported,
+   *          the element is considered always in the viewport
+   */
+  #initObserver(element: HTMLElement): void {
+    if (typeof IntersectionObserver === 'undefined') {
+      return
+    }
+
+    this.#observer = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1]
+      this.#isIntersecting = entry.isIntersecting
+      this.#update()
+    })
+    this.#observer.observe(element)
+  }
+}
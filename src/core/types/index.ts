@@ -2,6 +2,7 @@
  * @description Types
  * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
  */
+import type * as THREE from 'three'
 
 /**
  * @note Camera configuration for the model that should be rendered
@@ -18,25 +19,111 @@ export interface ModelSourceCamera {
   isControlsEnabled?: boolean
 }
 
+/**
+ * @note Motion (flow field) configuration of the model points
+ */
+export interface ModelSourcePointMotion {
+  frequency?: number
+  strength?: number
+  ratio?: number
+  lifeDecay?: number
+}
+
+/**
+ * @note Sampling configuration of the model points.
+ *       With `vertices` mode, points are placed on the model vertices.
+ *       With `surface` mode, points are distributed across the model
+ *       triangles (weighted by their area).
+ *       `count` is the number of points (by default, the number
+ *       of model vertices). With `vertices` mode, it can only
+ *       be lower than the number of model vertices
+ */
+export interface ModelSourcePointSampling {
+  mode?: 'vertices' | 'surface'
+  count?: number
+}
+
+/**
+ * @note Size of the rendered model.
+ *       If `container` is used, the size follows the container size
+ */
+export type ModelSourceSize = number | 'container'
+
+/**
+ * @note Supported model formats
+ */
+export type ModelFormat = 'gltf' | 'glb' | 'ply' | 'pcd' | 'obj' | 'stl'
+
+/**
+ * @note Raw point data.
+ *       Colors can be RGB or RGBA (linear) values
+ */
+export interface ModelPointData {
+  positions: Float32Array
+  colors?: Float32Array
+}
+
+/**
+ * @note Model input.
+ *       It can be a URL or an in-memory model: the model file
+ *       (`ArrayBuffer` or `Blob`), a geometry, a scene or raw point data
+ */
+export type ModelInput =
+  | string
+  | ArrayBuffer
+  | Blob
+  | THREE.BufferGeometry
+  | THREE.Object3D
+  | ModelPointData
+
+/**
+ * @note Options used to load a model
+ */
+export interface ModelLoadOptions {
+  meshes?: string[]
+  format?: ModelFormat
+}
+
 /**
  * @note Model that should be rendered
  */
 export interface ModelSource {
   src: {
-    highPoly: string
-    lowPoly: string
+    highPoly: ModelInput
+    /**
+     * @note Model used to raycast the pointer.
+     *       If it is not set, a simplified version of the high poly
+     *       model is generated, with `proxyTriangles` as the target
+     *       number of triangles
+     */
+    lowPoly?: ModelInput
+    proxyTriangles?: number
+    /**
+     * @note Names of the meshes that should be used
+     *       (meshes inside objects with these names are also used).
+     *       By default, every mesh of the model is used
+     */
+    meshes?: string[]
+    /**
+     * @note By default, the format is inferred from the URL extension
+     *       (or the file name). Model files without a name are
+     *       considered glTF binary files (`glb`)
+     */
+    format?: ModelFormat
   }
-  width: number
-  height: number
+  width: ModelSourceSize
+  height: ModelSourceSize
   camera?: ModelSourceCamera
   point?: {
     size?: number
-    motion?: {
-      frequency?: number
-      strength?: number
-      ratio?: number
-      lifeDecay?: number
-    }
+    motion?: ModelSourcePointMotion
+    sampling?: ModelSourcePointSampling
+    /**
+     * @note If it is set, every point uses this color
+     *       (i.e.: `#ff0000` or `0xff0000`),
+     *       instead of the model colors
+     */
+    color?: string | number
   }
 }
 
@@ -47,21 +134,182 @@ export interface ModelSourceCollection {
   [breakpoint: number]: ModelSource
 }
 
+/**
+ * @note Pointer interaction configuration
+ */
+export interface PointerConfig {
+  strength?: number
+  minRad?: number
+  maxRad?: number
+  pulseStrength?: number
+  pulseFrequency?: number
+}
+
+/**
+ * @note Transition used to tween settings at runtime.
+ *       Duration is expressed in seconds
+ */
+export interface Transition {
+  duration?: number
+  easing?: (t: number) => number
+}
+
+/**
+ * @note Adaptive quality configuration.
+ *       Quality is lowered when the frame rate is below the target,
+ *       and it is raised again when there is room for it
+ */
+export interface QualityConfig {
+  targetFps?: number
+  minDpr?: number
+  maxDpr?: number
+}
+
+/**
+ * @note Quality tier applied by the adaptive quality.
+ *       Level `0` is the highest quality.
+ *       If `fps` is not `null`, the frame rate is capped to that value
+ */
+export interface QualityTier {
+  level: number
+  dpr: number
+  pointRatio: number
+  fps: number | null
+}
+
+/**
+ * @note Debug configuration.
+ *       `hotkey` is the key combination that toggles the debug panel
+ *       (`false` disables it).
+ *       With `enabled` set to `url-param`, debug is only available when
+ *       the page URL contains the `debug` query parameter
+ */
+export interface DebugConfig {
+  hotkey?: string | false
+  enabled?: 'url-param' | boolean
+}
+
+/**
+ * @note Frame capture options.
+ *       Scale is applied to the pixel ratio of the canvas
+ */
+export interface CaptureOptions {
+  type?: string
+  scale?: number
+  quality?: number
+}
+
+/**
+ * @note Video recording options.
+ *       Duration is expressed in seconds
+ */
+export interface RecordOptions {
+  fps?: number
+  duration: number
+  type?: string
+}
+
+/**
+ * @note Offline frame sequence options.
+ *       Duration is expressed in seconds
+ */
+export interface FrameSequenceOptions extends CaptureOptions {
+  fps?: number
+  duration: number
+}
+
+/**
+ * @note Configuration problem, with the path of the related
+ *       configuration value (i.e.: `models.769.width`)
+ */
+export interface ConfigIssue {
+  path: string
+  message: string
+}
+
 /**
  * @note Configuration that sets up library behavior
  */
 export interface Config {
+  container?: HTMLElement | string
+  /**
+   * @deprecated Use `container` instead
+   */
   containerSelector?: string
   models: ModelSourceCollection
   loader?: {
     dracoUrl?: string
+    /**
+     * @note Path of the Basis Universal transcoder,
+     *       used to load KTX2 textures
+     */
+    ktx2TranscoderUrl?: string
+    /**
+     * @note If it is enabled, meshopt compressed glTF models
+     *       can be loaded
+     */
+    meshopt?: boolean
   }
-  pointer?: {
-    strength?: number
-    minRad?: number
-    maxRad?: number
-    pulseStrength?: number
-    pulseFrequency?: number
+  renderer?: {
+    isShared?: boolean
   }
+  pointer?: PointerConfig
+  quality?: QualityConfig
+  /**
+   * @note If it is set, random values are generated from it,
+   *       so the output is the same on every load
+   */
+  seed?: number
+  /**
+   * @note With the `manual` clock, the simulation is only advanced
+   *       with `step()` and `setTime()`
+   */
+  clock?: 'auto' | 'manual'
+  /**
+   * @note Fixed time step (in seconds) of the simulation.
+   *       If it is set, the simulation speed does not depend on the frame rate
+   */
+  fixedTimeStep?: number
+  maxSubSteps?: number
+  /**
+   * @note With `strict` validation (default), an invalid configuration
+   *       throws a `ConfigError`. With `lenient` validation,
+   *       problems are only reported as warnings
+   */
+  validation?: 'strict' | 'lenient'
+  debug?: DebugConfig
+  /**
+   * @note If it is `true`, the debug panel is shown once the model
+   *       is loaded
+   */
   isDebugging?: boolean
+  autoPause?: boolean
+}
+
+/**
+ * @note Events dispatched by the library, with their payloads
+ */
+export interface EventMap {
+  'load:progress': {
+    url: string
+    loaded: number
+    total: number
+    progress: number
+  }
+  'ready': {
+    breakpoint: number
+  }
+  'error': {
+    error: Error
+  }
+  'breakpointchange': {
+    breakpoint: number
+    previousBreakpoint: number
+    model: ModelSource
+  }
+  'qualitychange': {
+    tier: QualityTier
+    previousTier: QualityTier
+  }
+  'dispose': Record<string, never>
 }
@@ -1,14 +1,18 @@
 /**
  * @description Component
  * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
+ * @note        Each component renders its own container,
+ *              so several components can live on the same page
  */
 'use client'
 
+import {useRef} from 'react'
 import useThr2Pxl from '../hooks/useThr2Pxl.js'
 import type {Thr2PxlProps} from '../types'
 
 export default function Thr2Pxl(props: Thr2PxlProps) {
-  useThr2Pxl({...props, containerSelector: '#thr2pxl'})
+  const containerRef = useRef<HTMLDivElement>(null)
+  useThr2Pxl(props, containerRef)
 
-  return <div id="thr2pxl"></div>
+  return <div ref={containerRef}></div>
 }
@@ -2,18 +2,23 @@
  * @description Hook
  * @author      C. M. de Picciotto <d3p1@d3p1.dev> (https://d3p1.dev/)
  */
-import {useEffect, useRef} from 'react'
+import {type RefObject, useEffect, useRef} from 'react'
 import {type Config, Thr2Pxl} from '../../core'
 
-export default function useThr2Pxl(config: Config) {
+export default function useThr2Pxl(
+  config: Config,
+  containerRef?: RefObject<HTMLElement | null>,
+) {
   const instanceRef = useRef<Thr2Pxl>(null)
 
   useEffect(() => {
+    const container = containerRef?.current ?? config.container
+
     instanceRef.current?.dispose()
-    instanceRef.current = new Thr2Pxl(config)
+    instanceRef.current = new Thr2Pxl({...config, container: container})
 
     return () => instanceRef.current?.dispose()
-  }, [config])
+  }, [config, containerRef])
 
   return instanceRef
 }
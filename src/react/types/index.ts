@@ -4,4 +4,4 @@
  */
 import {type Config} from '../../core'
 
-export type Thr2PxlProps = Omit<Config, 'containerSelector'>
+export type Thr2PxlProps = Omit<Config, 'container' | 'containerSelector'>
@@ -3,7 +3,7 @@ import tailwindcss from '@tailwindcss/vite'
 import preserveDirectives from 'rollup-preserve-directives'
 import glsl from 'vite-plugin-glsl'
 import dts from 'vite-plugin-dts'
-import {defineConfig} from 'vite'
+import {defineConfig} from 'vitest/config'
 
 export default defineConfig({
   base: '/thr2pxl/',
@@ -29,8 +29,12 @@ export default defineConfig({
     glsl(),
     dts({
       tsconfigPath: resolve(__dirname, 'tsconfig.app.json'),
-      exclude: ['node_modules/**', 'dev/**'],
+      exclude: ['node_modules/**', 'dev/**', 'src/**/*.test.ts'],
     }),
     preserveDirectives()
   ],
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
 })